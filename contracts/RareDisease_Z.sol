@@ -1,13 +1,17 @@
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint16, euint32, externalEuint8, externalEuint16, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { ZamaEthereumConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract UniversalFHEAdapter is ZamaEthereumConfig {
     
     struct BusinessData {
-        string name;                    
+        string pseudonym;              
+        bytes32 identityCommitment;    
         euint32 encryptedValue;        
+        euint16 encryptedDiagnosisDelay;
+        euint8 encryptedSeverity;
+        euint8 encryptedSex;
         uint256 publicValue1;          
         uint256 publicValue2;          
         string description;            
@@ -15,59 +19,359 @@ contract UniversalFHEAdapter is ZamaEthereumConfig {
         uint256 timestamp;             
         uint32 decryptedValue; 
         bool isVerified; 
+        bool isWithdrawn;
+    }
+    
+    struct BusinessDataVersion {
+        euint32 encryptedValue;
+        uint256 timestamp;
+        address editor;
+    }
+    
+    struct BusinessDataView {
+        string businessId;
+        string pseudonym;
+        bytes32 identityCommitment;
+        uint256 publicValue1;
+        uint256 publicValue2;
+        string description;
+        address creator;
+        uint256 timestamp;
+        bool isVerified;
+        uint32 decryptedValue;
+        bool isWithdrawn;
+    }
+    
+    struct CategoryAggregate {
+        euint32 sum;
+        euint32 count;
+        euint32 publishedSum;
+        euint32 publishedCount;
+        uint256 size;
+        uint256 changes;
     }
     
 
+    bytes32 public constant REGISTRY_ADMIN_ROLE = keccak256("REGISTRY_ADMIN_ROLE");
+    bytes32 public constant CLINIC_ROLE = keccak256("CLINIC_ROLE");
+    bytes32 public constant RESEARCHER_ROLE = keccak256("RESEARCHER_ROLE");
+    bytes32 public constant AUDITOR_ROLE = keccak256("AUDITOR_ROLE");
+    
+    uint256 public constant MIN_COHORT_SIZE = 5;
+    
+    mapping(bytes32 => mapping(address => bool)) private roles;
+
     mapping(string => BusinessData) public businessData;
     
     string[] public businessIds;
     
+    mapping(string => uint256) private businessIdPositions;
+    
+    string[] private withdrawnBusinessIds;
+    
+    euint32 private encryptedValueSum;
+    euint32 private encryptedValueCount;
+    euint32 private encryptedValueMin;
+    euint32 private encryptedValueMax;
+    
+    euint32 private publishedValueSum;
+    euint32 private publishedValueCount;
+    euint32 private publishedValueMin;
+    euint32 private publishedValueMax;
+    
+    uint256 private aggregateChanges;
+    
+    mapping(string => CategoryAggregate) private categoryAggregates;
+    
+    string[] public categories;
+    
+    mapping(address => mapping(string => string[])) private cohortBusinessIds;
+    
+    mapping(string => BusinessDataVersion[]) private businessDataHistory;
+    
+    mapping(string => mapping(address => bool)) public recordAccess;
+    mapping(string => address[]) private recordGrantees;
+    
+    mapping(address => mapping(string => mapping(address => bool))) public cohortAccess;
+    mapping(address => mapping(string => address[])) private cohortGrantees;
+    
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
     event BusinessDataCreated(string indexed businessId, address indexed creator);
+    event BusinessDataAmended(string indexed businessId, address indexed editor, uint256 version);
+    event ConsentWithdrawn(string indexed businessId, address indexed creator, uint256 timestamp);
     event DecryptionVerified(string indexed businessId, uint32 decryptedValue);
+    event DecryptionPublished(string indexed businessId);
+    event RecordAccessGranted(string indexed businessId, address indexed researcher);
+    event RecordAccessRevoked(string indexed businessId, address indexed researcher);
+    event CohortAccessGranted(string indexed category, address indexed creator, address indexed researcher);
+    event CohortAccessRevoked(string indexed category, address indexed creator, address indexed researcher);
+    event AggregatesPublished(uint256 cohortSize);
+    event CategoryAggregatesPublished(string indexed category, uint256 cohortSize);
+    
+    modifier onlyRole(bytes32 role) {
+        require(roles[role][msg.sender], "Missing role");
+        _;
+    }
+    
+    modifier onlyCreator(string calldata businessId) {
+        require(businessData[businessId].creator != address(0), "Business data does not exist");
+        require(businessData[businessId].creator == msg.sender, "Only creator");
+        require(!businessData[businessId].isWithdrawn, "Consent withdrawn");
+        _;
+    }
+    
+    /// @dev Publishing and verifying share this guard, so whoever may verify a record can also publish it.
+    modifier onlyCreatorOrAuditor(string calldata businessId) {
+        require(businessData[businessId].creator != address(0), "Business data does not exist");
+        require(businessData[businessId].creator == msg.sender || roles[AUDITOR_ROLE][msg.sender], "Missing role");
+        require(!businessData[businessId].isWithdrawn, "Consent withdrawn");
+        _;
+    }
     
     constructor() ZamaEthereumConfig() {
+        _setRole(REGISTRY_ADMIN_ROLE, msg.sender, true);
+    }
+    
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return roles[role][account];
+    }
+    
+    function grantRole(bytes32 role, address account) external onlyRole(REGISTRY_ADMIN_ROLE) {
+        require(account != address(0), "Invalid account");
+        require(!roles[role][account], "Role already granted");
+        
+        _setRole(role, account, true);
+    }
+    
+    function revokeRole(bytes32 role, address account) external onlyRole(REGISTRY_ADMIN_ROLE) {
+        require(roles[role][account], "Role not granted");
+        require(role != REGISTRY_ADMIN_ROLE || account != msg.sender, "Cannot revoke own admin role");
+        
+        _setRole(role, account, false);
     }
     
     function createBusinessData(
         string calldata businessId,
-        string calldata name,
+        string calldata pseudonym,
+        bytes32 identityCommitment,
         externalEuint32 encryptedValue,
+        externalEuint16 encryptedDiagnosisDelay,
+        externalEuint8 encryptedSeverity,
+        externalEuint8 encryptedSex,
         bytes calldata inputProof,
         uint256 publicValue1,
         uint256 publicValue2,
         string calldata description
-    ) external {
-        require(bytes(businessData[businessId].name).length == 0, "Business data already exists");
+    ) external onlyRole(CLINIC_ROLE) {
+        require(businessData[businessId].creator == address(0), "Business data already exists");
+        require(bytes(pseudonym).length > 0, "Pseudonym required");
+        require(identityCommitment != bytes32(0), "Identity commitment required");
         
         require(FHE.isInitialized(FHE.fromExternal(encryptedValue, inputProof)), "Invalid encrypted input");
         
         businessData[businessId] = BusinessData({
-            name: name,
+            pseudonym: pseudonym,
+            identityCommitment: identityCommitment,
             encryptedValue: FHE.fromExternal(encryptedValue, inputProof),
+            encryptedDiagnosisDelay: FHE.fromExternal(encryptedDiagnosisDelay, inputProof),
+            encryptedSeverity: FHE.fromExternal(encryptedSeverity, inputProof),
+            encryptedSex: FHE.fromExternal(encryptedSex, inputProof),
             publicValue1: publicValue1,
             publicValue2: publicValue2,
             description: description,
             creator: msg.sender,
             timestamp: block.timestamp,
             decryptedValue: 0,
-            isVerified: false
+            isVerified: false,
+            isWithdrawn: false
         });
         
         FHE.allowThis(businessData[businessId].encryptedValue);
+        FHE.allowThis(businessData[businessId].encryptedDiagnosisDelay);
+        FHE.allowThis(businessData[businessId].encryptedSeverity);
+        FHE.allowThis(businessData[businessId].encryptedSex);
         
-        FHE.makePubliclyDecryptable(businessData[businessId].encryptedValue);
+        _allowRecord(businessData[businessId], msg.sender);
+        _allowCohortGrantees(businessData[businessId]);
+        
+        _accumulate(businessData[businessId].encryptedValue);
+        _accumulateCategory(description, businessData[businessId].encryptedValue);
         
         businessIds.push(businessId);
+        businessIdPositions[businessId] = businessIds.length;
+        cohortBusinessIds[msg.sender][description].push(businessId);
+        businessDataHistory[businessId].push(BusinessDataVersion({
+            encryptedValue: businessData[businessId].encryptedValue,
+            timestamp: block.timestamp,
+            editor: msg.sender
+        }));
         
         emit BusinessDataCreated(businessId, msg.sender);
     }
     
+    /// @dev Superseded handles stay in the history; a verified value is reset since it no longer matches.
+    function amendBusinessData(
+        string calldata businessId,
+        externalEuint32 encryptedValue,
+        bytes calldata inputProof
+    ) external onlyCreator(businessId) {
+        BusinessData storage data = businessData[businessId];
+        euint32 previousValue = data.encryptedValue;
+        euint32 value = FHE.fromExternal(encryptedValue, inputProof);
+        require(FHE.isInitialized(value), "Invalid encrypted input");
+        
+        data.encryptedValue = value;
+        data.decryptedValue = 0;
+        data.isVerified = false;
+        
+        FHE.allowThis(value);
+        _shareAmendedValue(businessId, data);
+        
+        _replaceInAggregates(data.description, previousValue, value);
+        
+        businessDataHistory[businessId].push(BusinessDataVersion({
+            encryptedValue: value,
+            timestamp: block.timestamp,
+            editor: msg.sender
+        }));
+        
+        emit BusinessDataAmended(businessId, msg.sender, businessDataHistory[businessId].length - 1);
+    }
+    
+    /// @dev Handles already shared through the FHE ACL stay decryptable by their holders; the record stops referencing them.
+    function withdrawConsent(string calldata businessId) external onlyCreator(businessId) {
+        BusinessData storage data = businessData[businessId];
+        
+        _removeFromAggregates(data.description, data.encryptedValue);
+        _removeFromEnumeration(businessId);
+        
+        address[] storage grantees = recordGrantees[businessId];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            recordAccess[businessId][grantees[i]] = false;
+        }
+        delete recordGrantees[businessId];
+        delete businessDataHistory[businessId];
+        
+        data.pseudonym = "";
+        data.identityCommitment = bytes32(0);
+        data.description = "";
+        data.publicValue1 = 0;
+        data.publicValue2 = 0;
+        data.decryptedValue = 0;
+        data.isVerified = false;
+        data.isWithdrawn = true;
+        data.encryptedValue = euint32.wrap(bytes32(0));
+        data.encryptedDiagnosisDelay = euint16.wrap(bytes32(0));
+        data.encryptedSeverity = euint8.wrap(bytes32(0));
+        data.encryptedSex = euint8.wrap(bytes32(0));
+        
+        withdrawnBusinessIds.push(businessId);
+        
+        emit ConsentWithdrawn(businessId, msg.sender, block.timestamp);
+    }
+    
+    function publishDecryption(string calldata businessId) external onlyCreatorOrAuditor(businessId) {
+        FHE.makePubliclyDecryptable(businessData[businessId].encryptedValue);
+        
+        emit DecryptionPublished(businessId);
+    }
+    
+    /// @dev Only snapshots are made decryptable, and only after MIN_COHORT_SIZE changes, so consecutive sums never differ by one record.
+    function publishAggregates() external onlyRole(REGISTRY_ADMIN_ROLE) {
+        require(businessIds.length >= MIN_COHORT_SIZE && aggregateChanges >= MIN_COHORT_SIZE, "Cohort too small");
+        
+        publishedValueSum = encryptedValueSum;
+        publishedValueCount = encryptedValueCount;
+        publishedValueMin = encryptedValueMin;
+        publishedValueMax = encryptedValueMax;
+        aggregateChanges = 0;
+        
+        FHE.makePubliclyDecryptable(publishedValueSum);
+        FHE.makePubliclyDecryptable(publishedValueCount);
+        FHE.makePubliclyDecryptable(publishedValueMin);
+        FHE.makePubliclyDecryptable(publishedValueMax);
+        
+        emit AggregatesPublished(businessIds.length);
+    }
+    
+    function publishCategoryAggregates(string calldata category) external onlyRole(REGISTRY_ADMIN_ROLE) {
+        CategoryAggregate storage aggregate = categoryAggregates[category];
+        require(FHE.isInitialized(aggregate.count), "Category does not exist");
+        require(aggregate.size >= MIN_COHORT_SIZE && aggregate.changes >= MIN_COHORT_SIZE, "Cohort too small");
+        
+        aggregate.publishedSum = aggregate.sum;
+        aggregate.publishedCount = aggregate.count;
+        aggregate.changes = 0;
+        
+        FHE.makePubliclyDecryptable(aggregate.publishedSum);
+        FHE.makePubliclyDecryptable(aggregate.publishedCount);
+        
+        emit CategoryAggregatesPublished(category, aggregate.size);
+    }
+    
+    function grantRecordAccess(string calldata businessId, address researcher) external onlyCreator(businessId) {
+        require(roles[RESEARCHER_ROLE][researcher], "Not a researcher");
+        
+        if (!recordAccess[businessId][researcher]) {
+            recordAccess[businessId][researcher] = true;
+            recordGrantees[businessId].push(researcher);
+        }
+        
+        _allowRecord(businessData[businessId], researcher);
+        
+        emit RecordAccessGranted(businessId, researcher);
+    }
+    
+    /// @dev FHE ACL permissions cannot be withdrawn; revoking stops handles created later from being shared.
+    function revokeRecordAccess(string calldata businessId, address researcher) external onlyCreator(businessId) {
+        require(recordAccess[businessId][researcher], "Access not granted");
+        
+        recordAccess[businessId][researcher] = false;
+        
+        emit RecordAccessRevoked(businessId, researcher);
+    }
+    
+    /// @dev Shares the caller's records in [offset, offset + limit); large cohorts are granted over several calls (see getCohortSize).
+    function grantCohortAccess(
+        string calldata category,
+        address researcher,
+        uint256 offset,
+        uint256 limit
+    ) external onlyRole(CLINIC_ROLE) {
+        require(roles[RESEARCHER_ROLE][researcher], "Not a researcher");
+        
+        if (!cohortAccess[msg.sender][category][researcher]) {
+            cohortAccess[msg.sender][category][researcher] = true;
+            cohortGrantees[msg.sender][category].push(researcher);
+        }
+        
+        string[] storage ids = cohortBusinessIds[msg.sender][category];
+        uint256 end = offset >= ids.length || limit > ids.length - offset ? ids.length : offset + limit;
+        for (uint256 i = offset; i < end; i++) {
+            BusinessData storage data = businessData[ids[i]];
+            if (!data.isWithdrawn) {
+                _allowRecord(data, researcher);
+            }
+        }
+        
+        emit CohortAccessGranted(category, msg.sender, researcher);
+    }
+    
+    /// @dev Like revokeRecordAccess, only future records of the cohort are withheld.
+    function revokeCohortAccess(string calldata category, address researcher) external {
+        require(cohortAccess[msg.sender][category][researcher], "Access not granted");
+        
+        cohortAccess[msg.sender][category][researcher] = false;
+        
+        emit CohortAccessRevoked(category, msg.sender, researcher);
+    }
+    
     function verifyDecryption(
         string calldata businessId, 
         bytes memory abiEncodedClearValue,
         bytes memory decryptionProof
-    ) external {
-        require(bytes(businessData[businessId].name).length > 0, "Business data does not exist");
+    ) external onlyCreatorOrAuditor(businessId) {
         require(!businessData[businessId].isVerified, "Data already verified");
         
         bytes32[] memory cts = new bytes32[](1);
@@ -84,12 +388,24 @@ contract UniversalFHEAdapter is ZamaEthereumConfig {
     }
     
     function getEncryptedValue(string calldata businessId) external view returns (euint32) {
-        require(bytes(businessData[businessId].name).length > 0, "Business data does not exist");
+        require(businessData[businessId].creator != address(0), "Business data does not exist");
         return businessData[businessId].encryptedValue;
     }
     
+    function getEncryptedFields(string calldata businessId) external view returns (
+        euint32 value,
+        euint16 diagnosisDelay,
+        euint8 severity,
+        euint8 sex
+    ) {
+        require(businessData[businessId].creator != address(0), "Business data does not exist");
+        BusinessData storage data = businessData[businessId];
+        return (data.encryptedValue, data.encryptedDiagnosisDelay, data.encryptedSeverity, data.encryptedSex);
+    }
+    
     function getBusinessData(string calldata businessId) external view returns (
-        string memory name,
+        string memory pseudonym,
+        bytes32 identityCommitment,
         uint256 publicValue1,
         uint256 publicValue2,
         string memory description,
@@ -98,11 +414,12 @@ contract UniversalFHEAdapter is ZamaEthereumConfig {
         bool isVerified,
         uint32 decryptedValue
     ) {
-        require(bytes(businessData[businessId].name).length > 0, "Business data does not exist");
+        require(businessData[businessId].creator != address(0), "Business data does not exist");
         BusinessData storage data = businessData[businessId];
         
         return (
-            data.name,
+            data.pseudonym,
+            data.identityCommitment,
             data.publicValue1,
             data.publicValue2,
             data.description,
@@ -117,6 +434,266 @@ contract UniversalFHEAdapter is ZamaEthereumConfig {
         return businessIds;
     }
     
+    function getWithdrawnBusinessIds() external view returns (string[] memory) {
+        return withdrawnBusinessIds;
+    }
+    
+    /// @dev withdrawConsent moves the last id into the withdrawn record's slot, so pages are not stable across
+    /// withdrawals; callers paging through should start again from offset 0 when `total` changes.
+    function getBusinessIdsPage(uint256 offset, uint256 limit) external view returns (
+        string[] memory ids,
+        uint256 total
+    ) {
+        return _page(businessIds, offset, limit);
+    }
+    
+    function getWithdrawnBusinessIdsPage(uint256 offset, uint256 limit) external view returns (
+        string[] memory ids,
+        uint256 total
+    ) {
+        return _page(withdrawnBusinessIds, offset, limit);
+    }
+    
+    function getBusinessDataBatch(string[] calldata ids) external view returns (BusinessDataView[] memory items) {
+        items = new BusinessDataView[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            BusinessData storage data = businessData[ids[i]];
+            require(data.creator != address(0), "Business data does not exist");
+            
+            items[i] = BusinessDataView({
+                businessId: ids[i],
+                pseudonym: data.pseudonym,
+                identityCommitment: data.identityCommitment,
+                publicValue1: data.publicValue1,
+                publicValue2: data.publicValue2,
+                description: data.description,
+                creator: data.creator,
+                timestamp: data.timestamp,
+                isVerified: data.isVerified,
+                decryptedValue: data.decryptedValue,
+                isWithdrawn: data.isWithdrawn
+            });
+        }
+    }
+    
+    function getBusinessDataHistory(string calldata businessId) external view returns (BusinessDataVersion[] memory) {
+        require(businessData[businessId].creator != address(0), "Business data does not exist");
+        return businessDataHistory[businessId];
+    }
+    
+    function getRecordGrantees(string calldata businessId) external view returns (address[] memory) {
+        return _activeGrantees(recordGrantees[businessId], recordAccess[businessId]);
+    }
+    
+    function getCohortGrantees(address creator, string calldata category) external view returns (address[] memory) {
+        return _activeGrantees(cohortGrantees[creator][category], cohortAccess[creator][category]);
+    }
+    
+    function getCohortSize(address creator, string calldata category) external view returns (uint256) {
+        return cohortBusinessIds[creator][category].length;
+    }
+    
+    function hasRecordAccess(string calldata businessId, address account) external view returns (bool) {
+        BusinessData storage data = businessData[businessId];
+        require(data.creator != address(0), "Business data does not exist");
+        if (data.isWithdrawn) return false;
+        return account == data.creator ||
+            recordAccess[businessId][account] ||
+            cohortAccess[data.creator][data.description][account];
+    }
+    
+    /// @dev The last published snapshot; zero handles until publishAggregates() has been called.
+    function getEncryptedAggregates() external view returns (
+        euint32 sum,
+        euint32 count,
+        euint32 min,
+        euint32 max
+    ) {
+        return (publishedValueSum, publishedValueCount, publishedValueMin, publishedValueMax);
+    }
+    
+    /// @dev Like getEncryptedAggregates, zero handles until the category has been published.
+    function getCategoryAggregates(string calldata category) external view returns (
+        euint32 sum,
+        euint32 count
+    ) {
+        require(FHE.isInitialized(categoryAggregates[category].count), "Category does not exist");
+        CategoryAggregate storage aggregate = categoryAggregates[category];
+        return (aggregate.publishedSum, aggregate.publishedCount);
+    }
+    
+    function getAllCategories() external view returns (string[] memory) {
+        return categories;
+    }
+    
+    function _setRole(bytes32 role, address account, bool granted) private {
+        roles[role][account] = granted;
+        
+        if (granted) {
+            emit RoleGranted(role, account, msg.sender);
+        } else {
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+    
+    function _allowRecord(BusinessData storage data, address account) private {
+        FHE.allow(data.encryptedValue, account);
+        FHE.allow(data.encryptedDiagnosisDelay, account);
+        FHE.allow(data.encryptedSeverity, account);
+        FHE.allow(data.encryptedSex, account);
+    }
+    
+    function _allowCohortGrantees(BusinessData storage data) private {
+        address[] storage grantees = cohortGrantees[data.creator][data.description];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            if (cohortAccess[data.creator][data.description][grantees[i]]) {
+                _allowRecord(data, grantees[i]);
+            }
+        }
+    }
+    
+    function _shareAmendedValue(string calldata businessId, BusinessData storage data) private {
+        FHE.allow(data.encryptedValue, data.creator);
+        
+        address[] storage grantees = recordGrantees[businessId];
+        for (uint256 i = 0; i < grantees.length; i++) {
+            if (recordAccess[businessId][grantees[i]]) {
+                FHE.allow(data.encryptedValue, grantees[i]);
+            }
+        }
+        
+        address[] storage cohort = cohortGrantees[data.creator][data.description];
+        for (uint256 i = 0; i < cohort.length; i++) {
+            if (cohortAccess[data.creator][data.description][cohort[i]]) {
+                FHE.allow(data.encryptedValue, cohort[i]);
+            }
+        }
+    }
+    
+    function _page(string[] storage source, uint256 offset, uint256 limit) private view returns (
+        string[] memory ids,
+        uint256 total
+    ) {
+        total = source.length;
+        if (offset >= total) {
+            return (new string[](0), total);
+        }
+        
+        uint256 end = limit > total - offset ? total : offset + limit;
+        ids = new string[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            ids[i - offset] = source[i];
+        }
+    }
+    
+    function _activeGrantees(
+        address[] storage grantees,
+        mapping(address => bool) storage access
+    ) private view returns (address[] memory) {
+        uint256 count = 0;
+        for (uint256 i = 0; i < grantees.length; i++) {
+            if (access[grantees[i]]) count++;
+        }
+        
+        address[] memory active = new address[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < grantees.length; i++) {
+            if (access[grantees[i]]) active[index++] = grantees[i];
+        }
+        return active;
+    }
+    
+    /// @dev Aggregates start from encrypted constants so no record's own handle becomes an aggregate.
+    function _accumulate(euint32 value) private {
+        if (!FHE.isInitialized(encryptedValueCount)) {
+            encryptedValueSum = FHE.asEuint32(0);
+            encryptedValueCount = FHE.asEuint32(0);
+            encryptedValueMin = FHE.asEuint32(type(uint32).max);
+            encryptedValueMax = FHE.asEuint32(0);
+        }
+        
+        encryptedValueSum = FHE.add(encryptedValueSum, value);
+        encryptedValueCount = FHE.add(encryptedValueCount, uint32(1));
+        encryptedValueMin = FHE.min(encryptedValueMin, value);
+        encryptedValueMax = FHE.max(encryptedValueMax, value);
+        aggregateChanges++;
+        
+        FHE.allowThis(encryptedValueSum);
+        FHE.allowThis(encryptedValueCount);
+        FHE.allowThis(encryptedValueMin);
+        FHE.allowThis(encryptedValueMax);
+    }
+    
+    /// @dev Sums are corrected exactly; min and max can only widen, so they still bound superseded values.
+    function _replaceInAggregates(string storage category, euint32 previousValue, euint32 value) private {
+        encryptedValueSum = FHE.sub(FHE.add(encryptedValueSum, value), previousValue);
+        encryptedValueMin = FHE.min(encryptedValueMin, value);
+        encryptedValueMax = FHE.max(encryptedValueMax, value);
+        
+        aggregateChanges++;
+        
+        FHE.allowThis(encryptedValueSum);
+        FHE.allowThis(encryptedValueMin);
+        FHE.allowThis(encryptedValueMax);
+        
+        CategoryAggregate storage aggregate = categoryAggregates[category];
+        aggregate.sum = FHE.sub(FHE.add(aggregate.sum, value), previousValue);
+        aggregate.changes++;
+        
+        FHE.allowThis(aggregate.sum);
+    }
+    
+    /// @dev Min and max cannot be recomputed without the remaining values, so they are kept as bounds.
+    function _removeFromAggregates(string storage category, euint32 value) private {
+        encryptedValueSum = FHE.sub(encryptedValueSum, value);
+        encryptedValueCount = FHE.sub(encryptedValueCount, uint32(1));
+        aggregateChanges++;
+        
+        FHE.allowThis(encryptedValueSum);
+        FHE.allowThis(encryptedValueCount);
+        
+        CategoryAggregate storage aggregate = categoryAggregates[category];
+        aggregate.sum = FHE.sub(aggregate.sum, value);
+        aggregate.count = FHE.sub(aggregate.count, uint32(1));
+        aggregate.size--;
+        aggregate.changes++;
+        
+        FHE.allowThis(aggregate.sum);
+        FHE.allowThis(aggregate.count);
+    }
+    
+    function _removeFromEnumeration(string calldata businessId) private {
+        uint256 position = businessIdPositions[businessId];
+        uint256 lastPosition = businessIds.length;
+        
+        if (position != lastPosition) {
+            string memory lastId = businessIds[lastPosition - 1];
+            businessIds[position - 1] = lastId;
+            businessIdPositions[lastId] = position;
+        }
+        
+        businessIds.pop();
+        delete businessIdPositions[businessId];
+    }
+    
+    function _accumulateCategory(string calldata category, euint32 value) private {
+        CategoryAggregate storage aggregate = categoryAggregates[category];
+        
+        if (!FHE.isInitialized(aggregate.count)) {
+            aggregate.sum = FHE.asEuint32(0);
+            aggregate.count = FHE.asEuint32(0);
+            categories.push(category);
+        }
+        
+        aggregate.sum = FHE.add(aggregate.sum, value);
+        aggregate.count = FHE.add(aggregate.count, uint32(1));
+        aggregate.size++;
+        aggregate.changes++;
+        
+        FHE.allowThis(aggregate.sum);
+        FHE.allowThis(aggregate.count);
+    }
+    
     function isAvailable() public pure returns (bool) {
         return true;
     }
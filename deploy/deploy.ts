@@ -360,6 +360,7 @@ async function main() {
     } else {
       const config = {
         network: rpc,
+        chainId: Number((await provider.getNetwork()).chainId),
         contractAddress: deployedAddress,
         deployer: wallet.address,
       };
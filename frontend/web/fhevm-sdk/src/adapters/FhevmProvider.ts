@@ -0,0 +1,62 @@
+/**
+ * React context for a shared FHEVM instance
+ * <FhevmProvider> initializes once per chain/account and re-initializes when either changes;
+ * the hooks below it (useFhevm, useEncrypt, ...) read the provider's store.
+ */
+
+import { createContext, createElement, useCallback, useContext, useEffect, useMemo, useRef, type ReactNode } from 'react';
+import type { FhevmClient, FheInstanceOptions } from '../core/index.js';
+import { getFhevmStore, type FhevmStore } from './vanilla.js';
+
+export interface FhevmProviderConfig extends Omit<FheInstanceOptions, 'signal'> {
+  // Connected account (e.g. wagmi's useAccount().address); nothing is initialized without one
+  account?: string | null;
+  // Defaults to the shared store used by hooks outside any provider
+  store?: FhevmStore;
+}
+
+export interface FhevmContextValue {
+  store: FhevmStore;
+  // Initialize with the provider's config (reuses a ready or pending instance)
+  initialize: () => Promise<FhevmClient | null>;
+}
+
+const FhevmContext = createContext<FhevmContextValue | null>(null);
+
+export function FhevmProvider({ config, children }: { config: FhevmProviderConfig; children?: ReactNode }) {
+  const store = config.store ?? getFhevmStore();
+  const key = config.account ? `${config.chainId ?? ''}:${config.account.toLowerCase()}` : null;
+
+  // Latest config without re-running the effect for unrelated changes (new object every render)
+  const configRef = useRef(config);
+  configRef.current = config;
+  // Refs survive StrictMode's double effect, so each chain/account initializes once
+  const initializedKey = useRef<string | null>(null);
+
+  const initialize = useCallback(() => {
+    const { account, store: _store, ...options } = configRef.current;
+    return store.initialize(options);
+  }, [store]);
+
+  useEffect(() => {
+    if (initializedKey.current === key) return;
+    initializedKey.current = key;
+
+    store.reset();
+    if (key) initialize();
+  }, [key, store, initialize]);
+
+  const value = useMemo(() => ({ store, initialize }), [store, initialize]);
+  return createElement(FhevmContext.Provider, { value }, children);
+}
+
+/**
+ * The enclosing provider's store, or the shared default store outside any provider
+ */
+export function useFhevmContext(): FhevmContextValue {
+  const context = useContext(FhevmContext);
+  if (context) return context;
+
+  const store = getFhevmStore();
+  return { store, initialize: store.initialize };
+}
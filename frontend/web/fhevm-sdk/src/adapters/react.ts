@@ -11,4 +11,7 @@ export { useFhevm } from './useFhevm.js';
 export { useContract } from './useContract.js';
 export { useDecrypt } from './useDecrypt.js';
 export { useEncrypt } from './useEncrypt.js';
+export { useRoles } from './useRoles.js';
+export { useFhevmStore } from './useFhevmStore.js';
+export { FhevmProvider, useFhevmContext, type FhevmProviderConfig, type FhevmContextValue } from './FhevmProvider.js';
 
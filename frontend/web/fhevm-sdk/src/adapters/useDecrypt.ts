@@ -1,48 +1,49 @@
 /**
  * Wagmi-like hook for decryption operations - FHE v0.9
+ * isDecrypting and error reflect every verification running through the shared FHEVM store.
  */
 
-import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { useCallback } from 'react';
+import { RequestOptions } from '../core/index.js';
+import { useFhevmContext } from './FhevmProvider.js';
+import type { VerifyFunction } from './vanilla.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useRequestControllers } from './useRequestControllers.js';
 
 export function useDecrypt() {
-  const [isDecrypting, setIsDecrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const { store } = useFhevmContext();
+  const { pending, error } = useFhevmStore(state => state.decryption);
+  const { start, finish, cancel } = useRequestControllers();
 
+  // Pending requests are aborted when the component unmounts
   const verifyDecryption = useCallback(async (
-    handles: string[], 
-    contractAddress: string, 
-    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+    handles: string[],
+    contractAddress: string,
+    verifyFunction: VerifyFunction,
+    options: RequestOptions = {}
   ) => {
-    setIsDecrypting(true);
-    setError('');
-    
+    const controller = start(options.signal);
     try {
-      const decryptionResult = await publicDecryptV09(handles);
-      
-      const tx = await verifyFunction(
-        decryptionResult.abiEncodedClearValues,
-        decryptionResult.decryptionProof
-      );
-      
-      const receipt = await tx.wait();
-      
-      return {
-        decryptionResult,
-        transactionReceipt: receipt
-      };
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
+      return await store.verifyDecryption(handles, contractAddress, verifyFunction, { ...options, signal: controller.signal });
     } finally {
-      setIsDecrypting(false);
+      finish(controller);
     }
-  }, []);
+  }, [start, finish, store]);
+
+  const publicDecrypt = useCallback(async (handles: string[], options: RequestOptions = {}) => {
+    const controller = start(options.signal);
+    try {
+      return await store.publicDecrypt(handles, { ...options, signal: controller.signal });
+    } finally {
+      finish(controller);
+    }
+  }, [start, finish, store]);
 
   return {
     verifyDecryption,
-    isDecrypting,
+    publicDecrypt,
+    cancel,
+    isDecrypting: pending > 0,
     error,
   };
 }
-
@@ -1,33 +1,53 @@
 /**
  * Wagmi-like hook for encryption operations
+ * isEncrypting and error reflect every encryption running through the shared FHEVM store.
  */
 
-import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { useCallback } from 'react';
+import { AbiFragment, EncryptedFieldInput, PlainValue, RequestOptions } from '../core/index.js';
+import { useFhevmContext } from './FhevmProvider.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useRequestControllers } from './useRequestControllers.js';
 
 export function useEncrypt() {
-  const [isEncrypting, setIsEncrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const { store } = useFhevmContext();
+  const { pending, error } = useFhevmStore(state => state.encryption);
+  const { start, finish, cancel } = useRequestControllers();
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
-    setIsEncrypting(true);
-    setError('');
-    
+  // Pending requests are aborted when the component unmounts
+  const run = useCallback(async <T,>(request: (options: RequestOptions) => Promise<T>, options: RequestOptions = {}) => {
+    const controller = start(options.signal);
     try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
-      return result;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
+      return await request({ ...options, signal: controller.signal });
     } finally {
-      setIsEncrypting(false);
+      finish(controller);
     }
-  }, []);
+  }, [start, finish]);
+
+  const encrypt = useCallback((contractAddress: string, userAddress: string, value: number, options?: RequestOptions) =>
+    run(requestOptions => store.encrypt(contractAddress, userAddress, value, requestOptions), options),
+  [run, store]);
+
+  const encryptFields = useCallback((contractAddress: string, userAddress: string, fields: EncryptedFieldInput[], options?: RequestOptions) =>
+    run(requestOptions => store.encryptFields(contractAddress, userAddress, fields, requestOptions), options),
+  [run, store]);
+
+  const encryptFor = useCallback((
+    contractAddress: string,
+    userAddress: string,
+    abi: readonly AbiFragment[],
+    functionName: string,
+    values: PlainValue[],
+    options?: RequestOptions
+  ) => run(requestOptions => store.encryptFor(contractAddress, userAddress, abi, functionName, values, requestOptions), options),
+  [run, store]);
 
   return {
     encrypt,
-    isEncrypting,
+    encryptFields,
+    encryptFor,
+    cancel,
+    isEncrypting: pending > 0,
     error,
   };
 }
-
@@ -1,30 +1,20 @@
 /**
  * Wagmi-like hook for FHEVM instance
+ * Components share one instance; calling initialize() again reuses it instead of re-initializing.
+ * Inside <FhevmProvider>, initialization follows the provider's config and connected account.
  */
 
-import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { useCallback } from 'react';
+import { useFhevmContext } from './FhevmProvider.js';
+import { useFhevmStore } from './useFhevmStore.js';
 
 export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
-  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
-  const [error, setError] = useState<string>('');
+  const { initialize: initializeStore } = useFhevmContext();
+  const { instance, status, error } = useFhevmStore(state => state.fhevm);
 
   const initialize = useCallback(async () => {
-    setStatus('loading');
-    setError('');
-    
-    try {
-      const fheInstance = await initializeFheInstance();
-      setInstance(fheInstance);
-      setStatus('ready');
-      console.log('✅ FHEVM initialized');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-      setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
-    }
-  }, []);
+    await initializeStore();
+  }, [initializeStore]);
 
   return {
     instance,
@@ -34,4 +24,3 @@ export function useFhevm() {
     isInitialized: status === 'ready',
   };
 }
-
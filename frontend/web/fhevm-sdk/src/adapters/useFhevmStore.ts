@@ -0,0 +1,14 @@
+/**
+ * Subscribe a component to a slice of the FHEVM store (the enclosing <FhevmProvider>'s, or the shared one)
+ * Return a slice of the state (or a primitive) so unrelated updates don't re-render.
+ */
+
+import { useSyncExternalStore } from 'react';
+import type { FhevmStoreState } from './vanilla.js';
+import { useFhevmContext } from './FhevmProvider.js';
+
+export function useFhevmStore<T>(selector: (state: FhevmStoreState) => T): T {
+  const { store } = useFhevmContext();
+  const getSnapshot = () => selector(store.getSnapshot());
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
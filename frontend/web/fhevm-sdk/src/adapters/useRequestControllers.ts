@@ -0,0 +1,32 @@
+/**
+ * Abort controllers for a hook's in-flight requests
+ * Requests are aborted on unmount or cancel().
+ */
+
+import { useRef, useCallback, useEffect } from 'react';
+
+export function useRequestControllers() {
+  const controllers = useRef(new Set<AbortController>());
+
+  const cancel = useCallback(() => {
+    controllers.current.forEach(controller => controller.abort());
+    controllers.current.clear();
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  // One controller per request, also aborted when the caller's own signal fires
+  const start = useCallback((signal?: AbortSignal) => {
+    const controller = new AbortController();
+    if (signal?.aborted) controller.abort(signal.reason);
+    signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    controllers.current.add(controller);
+    return controller;
+  }, []);
+
+  const finish = useCallback((controller: AbortController) => {
+    controllers.current.delete(controller);
+  }, []);
+
+  return { start, finish, cancel };
+}
@@ -0,0 +1,61 @@
+/**
+ * Wagmi-like hook for role-based access control
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { ethers } from 'ethers';
+import { fetchRoles } from '../core/index.js';
+
+export function useRoles(contract: ethers.BaseContract | null, account: string, roleNames: string[]) {
+  const [roles, setRoles] = useState<Record<string, boolean>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string>('');
+
+  const roleKey = roleNames.join(',');
+  // Only the latest lookup may update state, so a slow answer for a previous account or contract is dropped
+  const latestRequest = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const request = ++latestRequest.current;
+    const isLatest = () => request === latestRequest.current;
+
+    if (!contract || !account) {
+      setRoles({});
+      setIsLoading(false);
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const result = await fetchRoles(contract, account, roleNames);
+      if (isLatest()) setRoles(result);
+    } catch (err) {
+      if (!isLatest()) return;
+      setError(err instanceof Error ? err.message : 'Role lookup failed');
+      setRoles({});
+    } finally {
+      if (isLatest()) setIsLoading(false);
+    }
+  }, [contract, account, roleKey]);
+
+  // Results that settle after unmount are dropped as well
+  useEffect(() => () => {
+    latestRequest.current++;
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const hasRole = useCallback((roleName: string) => roles[roleName] === true, [roles]);
+
+  return {
+    roles,
+    hasRole,
+    isLoading,
+    error,
+    refresh,
+  };
+}
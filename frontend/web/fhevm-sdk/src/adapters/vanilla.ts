@@ -0,0 +1,295 @@
+/**
+ * Vanilla Adapter - Framework-free FHEVM state store
+ * One observable store for wallet, instance and operation state, with subscribe/getSnapshot
+ * semantics so React (useSyncExternalStore), web components and plain scripts share the same state.
+ * Each store owns its FhevmClient; the functional API's default client (initializeFheInstance) is separate.
+ */
+
+import type { ethers } from 'ethers';
+import {
+  FhevmClient,
+  FhevmError,
+  throwIfAborted,
+  type FheInstanceOptions,
+  type AbiFragment,
+  type BatchDecryptResult,
+  type DecryptOptions,
+  type EncryptedFieldInput,
+  type EncryptedInput,
+  type Hex,
+  type PlainValue,
+  type PublicDecryptResult,
+  type RequestOptions,
+} from '../core/index.js';
+
+export type FhevmStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export interface WalletState {
+  address: string;
+  isConnected: boolean;
+  chainId: number;
+  isConnecting: boolean;
+  error: string;
+}
+
+export interface FhevmInstanceState {
+  instance: FhevmClient | null;
+  status: FhevmStatus;
+  error: string;
+}
+
+export interface OperationState {
+  // Requests in flight
+  pending: number;
+  // Last failure; cancelled requests don't set it
+  error: string;
+}
+
+// Each slice is replaced (never mutated) on change, so slices can be compared by reference
+export interface FhevmStoreState {
+  wallet: WalletState;
+  fhevm: FhevmInstanceState;
+  encryption: OperationState;
+  decryption: OperationState;
+}
+
+// Sends the verification transaction, e.g. (values, proof) => contract.verifyDecryption(id, values, proof)
+export type VerifyFunction = (
+  abiEncodedClearValues: string,
+  decryptionProof: string
+) => Promise<{ wait(): Promise<ethers.TransactionReceipt | null> }>;
+
+export interface VerifiedDecryption {
+  decryptionResult: PublicDecryptResult;
+  transactionReceipt: ethers.TransactionReceipt | null;
+}
+
+export interface FhevmStore {
+  getSnapshot(): FhevmStoreState;
+  // Wallet listeners are attached while there is at least one subscriber
+  subscribe(listener: () => void): () => void;
+  connect(): Promise<void>;
+  disconnect(): void;
+  // Concurrent and repeated calls share one instance until reset()
+  initialize(options?: FheInstanceOptions): Promise<FhevmClient | null>;
+  reset(): void;
+  encrypt(contractAddress: string, userAddress: string, value: number, options?: RequestOptions): Promise<{ encryptedData: Hex; proof: Hex }>;
+  encryptFields(contractAddress: string, userAddress: string, fields: EncryptedFieldInput[], options?: RequestOptions): Promise<EncryptedInput>;
+  encryptFor(
+    contractAddress: string,
+    userAddress: string,
+    abi: readonly AbiFragment[],
+    functionName: string,
+    values: PlainValue[],
+    options?: RequestOptions
+  ): Promise<EncryptedInput>;
+  // Public decryption without on-chain verification, e.g. for published aggregates
+  publicDecrypt(handles: string[], options?: RequestOptions): Promise<PublicDecryptResult>;
+  verifyDecryption(
+    handles: string[],
+    contractAddress: string,
+    verifyFunction: VerifyFunction,
+    options?: RequestOptions
+  ): Promise<VerifiedDecryption>;
+  // User decryption signed by `signer`; counted with the other decryptions
+  batchDecrypt(
+    pairs: { handle: string; contractAddress: string }[],
+    signer: ethers.Signer,
+    options?: DecryptOptions
+  ): Promise<BatchDecryptResult>;
+}
+
+const INITIAL_WALLET: WalletState = { address: '', isConnected: false, chainId: 0, isConnecting: false, error: '' };
+const INITIAL_FHEVM: FhevmInstanceState = { instance: null, status: 'idle', error: '' };
+const INITIAL_OPERATION: OperationState = { pending: 0, error: '' };
+
+export function createFhevmStore(): FhevmStore {
+  let state: FhevmStoreState = {
+    wallet: INITIAL_WALLET,
+    fhevm: INITIAL_FHEVM,
+    encryption: INITIAL_OPERATION,
+    decryption: INITIAL_OPERATION,
+  };
+  const listeners = new Set<() => void>();
+
+  // Pending initialization, and a counter so results superseded by reset() are dropped
+  let initialization: Promise<FhevmClient | null> | null = null;
+  let generation = 0;
+
+  const update = <K extends keyof FhevmStoreState>(key: K, patch: Partial<FhevmStoreState[K]>) => {
+    state = { ...state, [key]: { ...state[key], ...patch } };
+    listeners.forEach(listener => listener());
+  };
+
+  const handleChainChanged = (chainIdHex: string) => {
+    update('wallet', { chainId: parseInt(chainIdHex, 16) });
+    console.log('🔄 Chain changed to:', parseInt(chainIdHex, 16));
+  };
+
+  const handleAccountsChanged = (accounts: string[]) => {
+    if (accounts.length === 0) {
+      // User disconnected
+      update('wallet', { address: '', isConnected: false, chainId: 0 });
+    } else {
+      update('wallet', { address: accounts[0] });
+    }
+  };
+
+  const subscribe = (listener: () => void) => {
+    if (listeners.size === 0 && typeof window !== 'undefined' && window.ethereum) {
+      window.ethereum.on('chainChanged', handleChainChanged);
+      window.ethereum.on('accountsChanged', handleAccountsChanged);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0 && typeof window !== 'undefined') {
+        window.ethereum?.removeListener('chainChanged', handleChainChanged);
+        window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
+      }
+    };
+  };
+
+  const connect = async () => {
+    if (typeof window === 'undefined' || !window.ethereum) {
+      update('wallet', { error: 'MetaMask not found. Please install MetaMask.' });
+      return;
+    }
+
+    update('wallet', { isConnecting: true, error: '' });
+
+    try {
+      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
+      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
+      update('wallet', { address: accounts[0], isConnected: true, chainId: parseInt(chainId, 16) });
+      console.log('✅ Wallet connected:', accounts[0]);
+    } catch (err) {
+      update('wallet', { error: err instanceof Error ? err.message : 'Connection failed' });
+      console.error('❌ Wallet connection failed:', err);
+    } finally {
+      update('wallet', { isConnecting: false });
+    }
+  };
+
+  const disconnect = () => {
+    update('wallet', INITIAL_WALLET);
+    console.log('🔌 Wallet disconnected');
+  };
+
+  const initialize = (options?: FheInstanceOptions) => {
+    if (initialization) return initialization;
+    if (state.fhevm.status === 'ready') return Promise.resolve(state.fhevm.instance);
+
+    const current = ++generation;
+    update('fhevm', { status: 'loading', error: '' });
+
+    initialization = (async () => {
+      try {
+        const instance = await FhevmClient.create(options);
+        if (current !== generation) return null;
+        update('fhevm', { instance, status: 'ready' });
+        console.log('✅ FHEVM initialized');
+        return instance;
+      } catch (err) {
+        if (current !== generation) return null;
+        update('fhevm', { status: 'error', error: err instanceof Error ? err.message : 'Unknown error' });
+        console.error('❌ FHEVM initialization failed:', err);
+        return null;
+      } finally {
+        if (current === generation) initialization = null;
+      }
+    })();
+
+    return initialization;
+  };
+
+  const reset = () => {
+    generation++;
+    initialization = null;
+    update('fhevm', INITIAL_FHEVM);
+  };
+
+  const requireClient = () => {
+    const { instance } = state.fhevm;
+    if (!instance) throw new FhevmError('NOT_INITIALIZED', 'FHEVM store not initialized. Call initialize() first.');
+    return instance;
+  };
+
+  // Count the request as pending and record its failure unless it was cancelled
+  const track = async <T>(
+    key: 'encryption' | 'decryption',
+    fallbackMessage: string,
+    request: () => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> => {
+    update(key, { pending: state[key].pending + 1, error: '' });
+
+    try {
+      return await request();
+    } catch (err) {
+      if (!signal?.aborted) {
+        update(key, { error: err instanceof Error ? err.message : fallbackMessage });
+      }
+      throw err;
+    } finally {
+      update(key, { pending: state[key].pending - 1 });
+    }
+  };
+
+  return {
+    getSnapshot: () => state,
+    subscribe,
+    connect,
+    disconnect,
+    initialize,
+    reset,
+
+    encrypt: (contractAddress, userAddress, value, options) =>
+      track('encryption', 'Encryption failed', async () => {
+        const { handles, inputProof } = await requireClient().encrypt(contractAddress, userAddress, [{ type: 'uint32', value }], options);
+        return { encryptedData: handles[0], proof: inputProof };
+      }, options?.signal),
+
+    encryptFields: (contractAddress, userAddress, fields, options) =>
+      track('encryption', 'Encryption failed', async () => requireClient().encrypt(contractAddress, userAddress, fields, options), options?.signal),
+
+    encryptFor: (contractAddress, userAddress, abi, functionName, values, options) =>
+      track('encryption', 'Encryption failed', async () => requireClient().encryptFor(contractAddress, userAddress, abi, functionName, values, options), options?.signal),
+
+    publicDecrypt: (handles, options) =>
+      track('decryption', 'Decryption failed', async () => requireClient().publicDecrypt(handles, options), options?.signal),
+
+    verifyDecryption: (handles, _contractAddress, verifyFunction, options) =>
+      track('decryption', 'Decryption verification failed', async () => {
+        const decryptionResult = await requireClient().publicDecrypt(handles, options);
+
+        // Do not send the verification transaction for a cancelled request
+        throwIfAborted(options?.signal);
+        const tx = await verifyFunction(
+          decryptionResult.abiEncodedClearValues,
+          decryptionResult.decryptionProof
+        );
+
+        const receipt = await tx.wait();
+
+        return {
+          decryptionResult,
+          transactionReceipt: receipt
+        };
+      }, options?.signal),
+
+    batchDecrypt: (pairs, signer, options) =>
+      track('decryption', 'Decryption failed', async () => requireClient().batchUserDecrypt(pairs, signer, options), options?.signal),
+  };
+}
+
+let defaultStore: FhevmStore | null = null;
+
+/**
+ * Store shared by the React hooks (and anyone else not passing their own)
+ */
+export function getFhevmStore(): FhevmStore {
+  if (!defaultStore) defaultStore = createFhevmStore();
+  return defaultStore;
+}
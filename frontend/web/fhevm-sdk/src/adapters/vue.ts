@@ -0,0 +1,241 @@
+/**
+ * Vue Adapter - Universal FHEVM SDK
+ * Vue 3 composables over the vanilla FHEVM store, with the same semantics as the React hooks;
+ * state is exposed as refs and every component sees the same wallet, instance and pending requests.
+ *
+ * Import from '@fhevm-sdk/vue' (kept out of the main entry so React apps don't need vue installed).
+ */
+
+import {
+  ref,
+  shallowRef,
+  computed,
+  watch,
+  inject,
+  provide,
+  hasInjectionContext,
+  onScopeDispose,
+  toValue,
+  type InjectionKey,
+  type MaybeRefOrGetter,
+  type ShallowRef,
+} from 'vue';
+import { ethers } from 'ethers';
+import type {
+  AbiFragment,
+  EncryptedFieldInput,
+  FheInstanceOptions,
+  PlainValue,
+  RequestOptions,
+} from '../core/index.js';
+import { getFhevmStore, type FhevmStore, type FhevmStoreState, type VerifyFunction } from './vanilla.js';
+
+// Re-exported so Vue apps can create stores without the main (React) entry
+export { createFhevmStore, getFhevmStore, type FhevmStore } from './vanilla.js';
+
+const FHEVM_STORE_KEY: InjectionKey<FhevmStore> = Symbol('fhevm-store');
+
+/**
+ * Use `store` for the composables in this component and its descendants (Vue counterpart of <FhevmProvider store>)
+ */
+export function provideFhevmStore(store: FhevmStore) {
+  provide(FHEVM_STORE_KEY, store);
+}
+
+/**
+ * The store provided by an ancestor, or the shared default store
+ */
+export function useFhevmStore(): FhevmStore {
+  return hasInjectionContext() ? inject(FHEVM_STORE_KEY, getFhevmStore, true) : getFhevmStore();
+}
+
+/**
+ * One slice of the store state, replaced whenever the store replaces it; unsubscribes with the scope
+ */
+function useStoreSlice<K extends keyof FhevmStoreState>(store: FhevmStore, key: K): ShallowRef<FhevmStoreState[K]> {
+  const slice = shallowRef(store.getSnapshot()[key]) as ShallowRef<FhevmStoreState[K]>;
+  const unsubscribe = store.subscribe(() => {
+    slice.value = store.getSnapshot()[key];
+  });
+  onScopeDispose(unsubscribe);
+  return slice;
+}
+
+/**
+ * Abort controllers for a composable's in-flight requests (Vue counterpart of useRequestControllers)
+ */
+function useRequestControllers() {
+  const controllers = new Set<AbortController>();
+
+  const cancel = () => {
+    controllers.forEach(controller => controller.abort());
+    controllers.clear();
+  };
+
+  onScopeDispose(cancel);
+
+  // One controller per request, also aborted when the caller's own signal fires
+  const start = (signal?: AbortSignal) => {
+    const controller = new AbortController();
+    if (signal?.aborted) controller.abort(signal.reason);
+    signal?.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+    controllers.add(controller);
+    return controller;
+  };
+
+  const finish = (controller: AbortController) => {
+    controllers.delete(controller);
+  };
+
+  return { start, finish, cancel };
+}
+
+/**
+ * Wallet connection; the store listens to the provider while any component is subscribed
+ */
+export function useWallet() {
+  const store = useFhevmStore();
+  const wallet = useStoreSlice(store, 'wallet');
+
+  return {
+    address: computed(() => wallet.value.address),
+    isConnected: computed(() => wallet.value.isConnected),
+    chainId: computed(() => wallet.value.chainId),
+    isConnecting: computed(() => wallet.value.isConnecting),
+    error: computed(() => wallet.value.error),
+    connect: store.connect,
+    disconnect: store.disconnect,
+  };
+}
+
+/**
+ * FHEVM instance; components share one instance and calling initialize() again reuses it
+ */
+export function useFhevm() {
+  const store = useFhevmStore();
+  const fhevm = useStoreSlice(store, 'fhevm');
+
+  const initialize = async (options?: FheInstanceOptions) => {
+    await store.initialize(options);
+  };
+
+  return {
+    instance: computed(() => fhevm.value.instance),
+    status: computed(() => fhevm.value.status),
+    error: computed(() => fhevm.value.error),
+    initialize,
+    isInitialized: computed(() => fhevm.value.status === 'ready'),
+  };
+}
+
+/**
+ * Read-only contract bound to the wallet provider; rebuilt when the address or ABI changes
+ */
+export function useContract(address: MaybeRefOrGetter<string>, abi: MaybeRefOrGetter<any[]>) {
+  const contract = shallowRef<ethers.Contract | null>(null);
+  const isReady = ref(false);
+  const error = ref('');
+
+  watch(() => [toValue(address), toValue(abi)] as const, ([contractAddress, contractAbi]) => {
+    if (typeof window === 'undefined' || !window.ethereum || !contractAddress || !contractAbi) return;
+
+    try {
+      const provider = new ethers.BrowserProvider(window.ethereum);
+      contract.value = new ethers.Contract(contractAddress, contractAbi, provider);
+      isReady.value = true;
+      error.value = '';
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Contract setup failed';
+      isReady.value = false;
+    }
+  }, { immediate: true });
+
+  return {
+    contract,
+    isReady,
+    error,
+  };
+}
+
+/**
+ * Encryption operations; isEncrypting stays true until every encryption in the store has settled,
+ * and this component's pending requests are aborted when it unmounts
+ */
+export function useEncrypt() {
+  const store = useFhevmStore();
+  const encryption = useStoreSlice(store, 'encryption');
+  const { start, finish, cancel } = useRequestControllers();
+
+  const run = async <T>(request: (options: RequestOptions) => Promise<T>, options: RequestOptions = {}) => {
+    const controller = start(options.signal);
+    try {
+      return await request({ ...options, signal: controller.signal });
+    } finally {
+      finish(controller);
+    }
+  };
+
+  const encrypt = (contractAddress: string, userAddress: string, value: number, options?: RequestOptions) =>
+    run(requestOptions => store.encrypt(contractAddress, userAddress, value, requestOptions), options);
+
+  const encryptFields = (contractAddress: string, userAddress: string, fields: EncryptedFieldInput[], options?: RequestOptions) =>
+    run(requestOptions => store.encryptFields(contractAddress, userAddress, fields, requestOptions), options);
+
+  const encryptFor = (
+    contractAddress: string,
+    userAddress: string,
+    abi: readonly AbiFragment[],
+    functionName: string,
+    values: PlainValue[],
+    options?: RequestOptions
+  ) => run(requestOptions => store.encryptFor(contractAddress, userAddress, abi, functionName, values, requestOptions), options);
+
+  return {
+    encrypt,
+    encryptFields,
+    encryptFor,
+    cancel,
+    isEncrypting: computed(() => encryption.value.pending > 0),
+    error: computed(() => encryption.value.error),
+  };
+}
+
+/**
+ * Public decryption, optionally followed by on-chain verification - FHE v0.9
+ */
+export function useDecrypt() {
+  const store = useFhevmStore();
+  const decryption = useStoreSlice(store, 'decryption');
+  const { start, finish, cancel } = useRequestControllers();
+
+  const verifyDecryption = async (
+    handles: string[],
+    contractAddress: string,
+    verifyFunction: VerifyFunction,
+    options: RequestOptions = {}
+  ) => {
+    const controller = start(options.signal);
+    try {
+      return await store.verifyDecryption(handles, contractAddress, verifyFunction, { ...options, signal: controller.signal });
+    } finally {
+      finish(controller);
+    }
+  };
+
+  const publicDecrypt = async (handles: string[], options: RequestOptions = {}) => {
+    const controller = start(options.signal);
+    try {
+      return await store.publicDecrypt(handles, { ...options, signal: controller.signal });
+    } finally {
+      finish(controller);
+    }
+  };
+
+  return {
+    verifyDecryption,
+    publicDecrypt,
+    cancel,
+    isDecrypting: computed(() => decryption.value.pending > 0),
+    error: computed(() => decryption.value.error),
+  };
+}
@@ -0,0 +1,193 @@
+/**
+ * wagmi/viem Adapter - Universal FHEVM SDK
+ * Hooks that route signing, user decryption and contract writes through the wagmi connector the
+ * user picked (injected, WalletConnect, ...) instead of window.ethereum.
+ *
+ * Import from '@fhevm-sdk/wagmi' (kept out of the main entry so apps without wagmi don't need it).
+ */
+
+import { useCallback, useMemo } from 'react';
+import { ethers } from 'ethers';
+import type { Account, Chain, Client, Transport } from 'viem';
+import { useAccount, useConnect, useConnectorClient, useDisconnect, usePublicClient, type Config, type Connector } from 'wagmi';
+import { NoSignerError, type AbiFragment, type DecryptOptions, type EncryptedFieldInput, type PlainValue, type RequestOptions } from '../core/index.js';
+import { useFhevmContext } from './FhevmProvider.js';
+import { useEncrypt } from './useEncrypt.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useRequestControllers } from './useRequestControllers.js';
+
+export interface WagmiHookOptions {
+  // Defaults to the config of the enclosing WagmiProvider
+  config?: Config;
+  chainId?: number;
+}
+
+function toEthersNetwork(chain: Chain) {
+  return {
+    chainId: chain.id,
+    name: chain.name,
+    ensAddress: chain.contracts?.ensRegistry?.address,
+  };
+}
+
+/**
+ * ethers provider over a viem PublicClient (or any client); fallback transports become a FallbackProvider
+ */
+export function clientToProvider(client: Client<Transport, Chain>): ethers.AbstractProvider {
+  const { chain, transport } = client;
+  const network = toEthersNetwork(chain);
+
+  if (transport.type === 'fallback') {
+    const providers = (transport.transports as ReturnType<Transport>[]).map(
+      ({ value }) => new ethers.JsonRpcProvider(value?.url, network)
+    );
+    return providers.length === 1 ? providers[0] : new ethers.FallbackProvider(providers);
+  }
+  return new ethers.JsonRpcProvider(transport.url, network);
+}
+
+/**
+ * ethers Signer over a viem WalletClient; requests (including EIP-712 signatures) go through its transport
+ */
+export function clientToSigner(client: Client<Transport, Chain, Account>): ethers.JsonRpcSigner {
+  const { account, chain, transport } = client;
+  const provider = new ethers.BrowserProvider(transport, toEthersNetwork(chain));
+  return new ethers.JsonRpcSigner(provider, account.address);
+}
+
+/**
+ * Read-only provider for the connected (or given) chain
+ */
+export function useWagmiProvider({ config, chainId }: WagmiHookOptions = {}) {
+  const client = usePublicClient({ config, chainId });
+  return useMemo(() => (client ? clientToProvider(client) : undefined), [client]);
+}
+
+/**
+ * Signer for the active connector; undefined until a wallet is connected
+ */
+export function useWagmiSigner({ config, chainId }: WagmiHookOptions = {}) {
+  const { data: client } = useConnectorClient({ config, chainId });
+  return useMemo(() => (client ? clientToSigner(client) : undefined), [client]);
+}
+
+/**
+ * useWallet with wagmi's connection state; connect() uses the given connector or the first configured one
+ */
+export function useWagmiWallet({ config }: WagmiHookOptions = {}) {
+  const { address, isConnected, isConnecting, chainId } = useAccount({ config });
+  const { connectors, connectAsync, error: connectError } = useConnect({ config });
+  const { disconnect: disconnectWallet } = useDisconnect({ config });
+
+  const connect = useCallback(async (connector: Connector = connectors[0]) => {
+    try {
+      await connectAsync({ connector });
+    } catch (err) {
+      console.error('❌ Wallet connection failed:', err);
+    }
+  }, [connectAsync, connectors]);
+
+  const disconnect = useCallback(() => disconnectWallet(), [disconnectWallet]);
+
+  return {
+    address: address ?? '',
+    isConnected,
+    chainId: chainId ?? 0,
+    isConnecting,
+    error: connectError?.message ?? '',
+    connect,
+    disconnect,
+  };
+}
+
+/**
+ * useContract bound to wagmi: `contract` reads through the public client, `writeContract` signs with the connector
+ */
+export function useWagmiContract(address: string, abi: ethers.InterfaceAbi, options: WagmiHookOptions = {}) {
+  const provider = useWagmiProvider(options);
+  const signer = useWagmiSigner(options);
+
+  const contract = useMemo(
+    () => (provider && address ? new ethers.Contract(address, abi, provider) : null),
+    [provider, address, abi]
+  );
+  const writeContract = useMemo(
+    () => (signer && address ? new ethers.Contract(address, abi, signer) : null),
+    [signer, address, abi]
+  );
+
+  return {
+    contract,
+    writeContract,
+    signer,
+    isReady: contract !== null,
+  };
+}
+
+function requireAccount(address: string | undefined): string {
+  if (!address) throw new NoSignerError();
+  return address;
+}
+
+/**
+ * useEncrypt with the connected account as the user the inputs are bound to
+ */
+export function useWagmiEncrypt({ config }: WagmiHookOptions = {}) {
+  const { address } = useAccount({ config });
+  const encryption = useEncrypt();
+  const { encrypt: encryptValue, encryptFields: encryptFieldValues, encryptFor: encryptForFunction } = encryption;
+
+  const encrypt = useCallback((contractAddress: string, value: number, options?: RequestOptions) =>
+    encryptValue(contractAddress, requireAccount(address), value, options),
+  [encryptValue, address]);
+
+  const encryptFields = useCallback((contractAddress: string, fields: EncryptedFieldInput[], options?: RequestOptions) =>
+    encryptFieldValues(contractAddress, requireAccount(address), fields, options),
+  [encryptFieldValues, address]);
+
+  const encryptFor = useCallback((
+    contractAddress: string,
+    abi: readonly AbiFragment[],
+    functionName: string,
+    values: PlainValue[],
+    options?: RequestOptions
+  ) => encryptForFunction(contractAddress, requireAccount(address), abi, functionName, values, options),
+  [encryptForFunction, address]);
+
+  return {
+    ...encryption,
+    encrypt,
+    encryptFields,
+    encryptFor,
+  };
+}
+
+/**
+ * User decryption with the EIP-712 session signed by the active connector
+ */
+export function useWagmiDecrypt(options: WagmiHookOptions = {}) {
+  const signer = useWagmiSigner(options);
+  const { store } = useFhevmContext();
+  const { pending, error } = useFhevmStore(state => state.decryption);
+  const { start, finish, cancel } = useRequestControllers();
+
+  // Pending requests are aborted when the component unmounts
+  const decrypt = useCallback(async (pairs: { handle: string; contractAddress: string }[], decryptOptions: DecryptOptions = {}) => {
+    if (!signer) throw new NoSignerError();
+
+    const controller = start(decryptOptions.signal);
+    try {
+      return await store.batchDecrypt(pairs, signer, { ...decryptOptions, signal: controller.signal });
+    } finally {
+      finish(controller);
+    }
+  }, [signer, store, start, finish]);
+
+  return {
+    decrypt,
+    signer,
+    cancel,
+    isDecrypting: pending > 0,
+    error,
+  };
+}
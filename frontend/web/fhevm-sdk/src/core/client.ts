@@ -0,0 +1,508 @@
+/**
+ * FHEVM Client - Typed wrapper around a relayer instance
+ * Each client is bound to one network, so several can live side by side (e.g. one per chain)
+ */
+
+import { ethers } from "ethers";
+import type { ClearValueType, EIP712, FhevmInstance, RelayerEncryptedInput } from '@zama-fhe/relayer-sdk/web';
+import { fieldsForFunction, validateField, type AbiFragment, type EncryptedFieldInput, type EncryptedValueType, type PlainValue } from './encryption.js';
+import { AbortedError, AclDeniedError, ChainMismatchError, InvalidHandleError, InvalidResponseError, PublicDecryptionError, RelayerUnavailableError, TimeoutError, toFhevmError } from './errors.js';
+import { createRelayerInstance, type FheInstanceOptions, type RelayerInstanceContext } from './instance.js';
+import { getDecryptionSession, invalidateDecryptionSession, type DecryptionSession, type DecryptionSessionOptions } from './sessions.js';
+import type { FhevmNetwork } from './networks.js';
+import { raceRequest, throwIfAborted, withRetry, type RequestOptions, type RetryOptions } from './retry.js';
+// ABI of the ACL interface, from the Hardhat project's compiled @fhevm/solidity artifacts
+import IACL from '../../../../../artifacts/@fhevm/solidity/lib/impl.sol/IACL.json';
+
+export type Hex = `0x${string}`;
+
+/**
+ * Ciphertext handle: 0x-prefixed 32-byte hex string
+ */
+export type Handle = Hex;
+
+export interface HandleContractPair {
+  handle: Handle;
+  contractAddress: string;
+}
+
+export interface EncryptedInput {
+  handles: Handle[];
+  inputProof: Hex;
+}
+
+export interface FhevmKeypair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export type DecryptedValue = ClearValueType;
+
+export type DecryptResults = Record<Handle, DecryptedValue>;
+
+export interface DecryptFailure {
+  handle: string;
+  contractAddress: string;
+  error: Error;
+}
+
+/**
+ * Batch decryption outcome: values for every handle that decrypted, failures for the rest
+ */
+export interface BatchDecryptResult {
+  values: DecryptResults;
+  failures: DecryptFailure[];
+}
+
+export type DecryptOptions = DecryptionSessionOptions & RequestOptions;
+
+export interface PublicDecryptResult {
+  clearValues: DecryptResults;
+  abiEncodedClearValues: Hex;
+  decryptionProof: Hex;
+}
+
+// Solidity type and encrypted bit width by FHE type byte (byte 30 of a handle), as in the relayer SDK
+const HANDLE_TYPES: Record<number, { type: EncryptedValueType; bits: number }> = {
+  0: { type: 'bool', bits: 2 },
+  2: { type: 'uint8', bits: 8 },
+  3: { type: 'uint16', bits: 16 },
+  4: { type: 'uint32', bits: 32 },
+  5: { type: 'uint64', bits: 64 },
+  6: { type: 'uint128', bits: 128 },
+  7: { type: 'address', bits: 160 },
+  8: { type: 'uint256', bits: 256 },
+};
+const MAX_DECRYPT_BITS_PER_REQUEST = 2048;
+const MAX_CONTRACTS_PER_REQUEST = 10;
+
+/**
+ * Normalize a handle to 0x-prefixed 32-byte hex, throwing on anything else
+ */
+export function toHandle(value: Uint8Array | string): Handle {
+  const hex = typeof value === 'string' ? value : ethers.hexlify(value);
+  if (!ethers.isHexString(hex, 32)) {
+    throw new InvalidHandleError(typeof value === 'string' ? value : hex);
+  }
+  return hex.toLowerCase() as Handle;
+}
+
+function handleType(handle: Handle) {
+  const entry = HANDLE_TYPES[parseInt(handle.slice(-4, -2), 16)];
+  if (!entry) {
+    throw new InvalidHandleError(handle, 'Unknown FHE type in handle');
+  }
+  return entry;
+}
+
+/**
+ * Solidity type of a handle's clear value, read from the FHE type it encodes
+ */
+export function getHandleType(handle: Handle): EncryptedValueType {
+  return handleType(handle).type;
+}
+
+/**
+ * Encrypted bit width of a handle, read from the FHE type it encodes
+ */
+export function getHandleBits(handle: Handle): number {
+  return handleType(handle).bits;
+}
+
+/**
+ * ABI-encode clear values in handle order with each handle's Solidity type,
+ * the layout FHE.checkSignatures verifies against the decryption proof
+ */
+export function encodeClearValues(handles: Handle[], clearValues: DecryptResults): Hex {
+  return ethers.AbiCoder.defaultAbiCoder().encode(
+    handles.map(getHandleType),
+    handles.map(handle => clearValues[handle])
+  ) as Hex;
+}
+
+/**
+ * Split pairs into relayer requests: at most 10 contracts and 2048 encrypted bits each
+ */
+function chunkDecryptRequests(pairs: HandleContractPair[]): HandleContractPair[][] {
+  const chunks: HandleContractPair[][] = [];
+  let chunk: HandleContractPair[] = [];
+  let contracts = new Set<string>();
+  let bits = 0;
+
+  for (const pair of pairs) {
+    const pairBits = getHandleBits(pair.handle);
+    const contract = pair.contractAddress.toLowerCase();
+    const newContract = !contracts.has(contract);
+    if (chunk.length > 0 && (bits + pairBits > MAX_DECRYPT_BITS_PER_REQUEST || (newContract && contracts.size === MAX_CONTRACTS_PER_REQUEST))) {
+      chunks.push(chunk);
+      chunk = [];
+      contracts = new Set();
+      bits = 0;
+    }
+    chunk.push(pair);
+    contracts.add(contract);
+    bits += pairBits;
+  }
+  if (chunk.length > 0) chunks.push(chunk);
+  return chunks;
+}
+
+export class FhevmClient {
+  readonly instance: FhevmInstance;
+  readonly network: FhevmNetwork;
+  readonly aclContractAddress: string;
+  readonly signer: ethers.Signer | null;
+  // Default timeout/retry policy for relayer requests; per-call options override it
+  readonly retry: RetryOptions;
+  private readonly walletProvider: ethers.Eip1193Provider | null;
+
+  private constructor(context: RelayerInstanceContext, retry: RetryOptions) {
+    this.instance = context.instance;
+    this.network = context.network;
+    this.aclContractAddress = context.aclContractAddress;
+    this.signer = context.signer;
+    this.walletProvider = context.walletProvider ?? null;
+    this.retry = retry;
+  }
+
+  /**
+   * Create a client for the connected wallet (browser) or the given RPC/signer (Node.js)
+   */
+  static async create(options?: FheInstanceOptions): Promise<FhevmClient> {
+    return new FhevmClient(await createRelayerInstance(options), options?.retry ?? {});
+  }
+
+  get chainId() {
+    return this.network.chainId;
+  }
+
+  /**
+   * Low-level input builder; prefer encrypt() which validates the result
+   */
+  createEncryptedInput(contractAddress: string, userAddress: string): RelayerEncryptedInput {
+    return this.instance.createEncryptedInput(contractAddress, userAddress);
+  }
+
+  /**
+   * Encrypt several typed values into one input sharing a single inputProof.
+   * Handles are returned in the same order as the fields.
+   */
+  async encrypt(contractAddress: string, userAddress: string, fields: EncryptedFieldInput[], options: RequestOptions = {}): Promise<EncryptedInput> {
+    const input = this.createEncryptedInput(contractAddress, userAddress);
+    for (const field of fields.map(validateField)) {
+      switch (field.type) {
+        case 'bool':
+          input.addBool(field.value);
+          break;
+        case 'address':
+          input.addAddress(field.value);
+          break;
+        case 'uint8':
+          input.add8(field.value);
+          break;
+        case 'uint16':
+          input.add16(field.value);
+          break;
+        case 'uint32':
+          input.add32(field.value);
+          break;
+        case 'uint64':
+          input.add64(field.value);
+          break;
+        case 'uint128':
+          input.add128(field.value);
+          break;
+        case 'uint256':
+          input.add256(field.value);
+          break;
+      }
+    }
+
+    // Proof generation can take well over the relayer timeout, so only a caller-supplied timeout applies
+    const result = await withRetry(() => input.encrypt(), {
+      ...this.requestOptions(options),
+      timeoutMs: options.timeoutMs ?? 0,
+      retryOnTimeout: false,
+    });
+    if (!Array.isArray(result?.handles) || result.handles.length !== fields.length || !(result.inputProof instanceof Uint8Array)) {
+      throw new InvalidResponseError(`Unexpected encrypted input structure: expected ${fields.length} handles and an inputProof`);
+    }
+
+    return {
+      handles: result.handles.map(toHandle),
+      inputProof: ethers.hexlify(result.inputProof) as Hex,
+    };
+  }
+
+  /**
+   * Encrypt the values for a contract function's encrypted parameters,
+   * choosing each type from the ABI (e.g. externalEuint16 -> add16)
+   */
+  async encryptFor(
+    contractAddress: string,
+    userAddress: string,
+    abi: readonly AbiFragment[],
+    functionName: string,
+    values: PlainValue[],
+    options: RequestOptions = {}
+  ): Promise<EncryptedInput> {
+    return this.encrypt(contractAddress, userAddress, fieldsForFunction(abi, functionName, values), options);
+  }
+
+  generateKeypair(): FhevmKeypair {
+    const { publicKey, privateKey } = this.instance.generateKeypair();
+    if (!publicKey || !privateKey) {
+      throw new InvalidResponseError('Relayer returned an incomplete keypair');
+    }
+    return { publicKey, privateKey };
+  }
+
+  createEIP712(publicKey: string, contractAddresses: string[], startTimestamp: number, durationDays: number): EIP712 {
+    return this.instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays);
+  }
+
+  /**
+   * Check ACL permissions required for user decryption.
+   * Both the user and the contract holding the handle must be allowed.
+   */
+  async checkDecryptAccess(pairs: HandleContractPair[], userAddress: string, runner: ethers.ContractRunner): Promise<boolean[]> {
+    const acl = new ethers.Contract(this.aclContractAddress, IACL.abi, runner);
+    return Promise.all(
+      pairs.map(async ({ handle, contractAddress }) => {
+        const [userAllowed, contractAllowed] = await Promise.all([
+          acl.isAllowed(handle, userAddress),
+          acl.isAllowed(handle, contractAddress),
+        ]);
+        return Boolean(userAllowed && contractAllowed);
+      })
+    );
+  }
+
+  /**
+   * Sign a new EIP-712 user-decryption authorization for the given contracts
+   */
+  async createDecryptionSession(
+    signer: ethers.Signer,
+    contractAddresses: string[],
+    durationDays: number,
+    signal?: AbortSignal
+  ): Promise<DecryptionSession> {
+    throwIfAborted(signal);
+    const keypair = this.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+    const eip712 = this.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
+
+    let signature: string;
+    try {
+      signature = await signer.signTypedData(
+        eip712.domain,
+        {
+          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+        },
+        eip712.message
+      );
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+
+    return {
+      chainId: this.chainId,
+      userAddress: await signer.getAddress(),
+      ...keypair,
+      signature: signature.replace('0x', ''),
+      contractAddresses,
+      startTimestamp,
+      durationDays,
+    };
+  }
+
+  /**
+   * EIP-712 user decryption of handles that may belong to different contracts.
+   * Checks the ACL first so the wallet is not asked to sign for handles it cannot decrypt,
+   * then decrypts every handle, throwing if any fails. The signature is cached
+   * as a session and reused until it expires or the account or chain changes.
+   */
+  async userDecrypt(pairs: HandleContractPair[], signer: ethers.Signer, options: DecryptOptions = {}): Promise<DecryptResults> {
+    const { values, failures } = await this.batchUserDecrypt(pairs, signer, options);
+    const denied = failures.filter(failure => failure.error instanceof AclDeniedError);
+    if (denied.length > 0 && denied.length === failures.length) {
+      throw new AclDeniedError(await signer.getAddress(), denied.map(failure => failure.handle));
+    }
+    if (failures.length > 0) {
+      throw failures[0].error;
+    }
+    return values;
+  }
+
+  /**
+   * Batched user decryption across contracts. Handle/contract pairs are deduplicated, split into
+   * relayer-sized requests, and decrypted with one session signature where possible.
+   * Pairs that cannot be checked or decrypted are reported in `failures` instead of failing the batch;
+   * cancelling through `options.signal` throws AbortedError.
+   */
+  async batchUserDecrypt(
+    pairs: { handle: string; contractAddress: string }[],
+    signer: ethers.Signer,
+    options: DecryptOptions = {}
+  ): Promise<BatchDecryptResult> {
+    throwIfAborted(options.signal);
+    await this.assertSignerChain(signer);
+    const userAddress = await signer.getAddress();
+    const values: DecryptResults = {};
+    const failures: DecryptFailure[] = [];
+
+    // The same handle may be requested through different contracts, each with its own ACL entry
+    const unique = new Map<string, HandleContractPair>();
+    for (const { handle, contractAddress } of pairs) {
+      try {
+        const normalized = toHandle(handle);
+        getHandleBits(normalized);
+        const key = `${normalized}:${contractAddress.toLowerCase()}`;
+        if (!unique.has(key)) unique.set(key, { handle: normalized, contractAddress });
+      } catch (error) {
+        failures.push({ handle, contractAddress, error: toFhevmError(error) });
+      }
+    }
+
+    // Checked one pair at a time so a failed ACL call only fails that pair
+    const candidates = [...unique.values()];
+    const access = await raceRequest(
+      Promise.allSettled(candidates.map(pair => this.checkDecryptAccess([pair], userAddress, signer))),
+      0,
+      options.signal
+    );
+    const permitted = candidates.filter((pair, i) => {
+      const result = access[i];
+      if (result.status === 'rejected') {
+        failures.push({ ...pair, error: toFhevmError(result.reason) });
+        return false;
+      }
+      if (!result.value[0]) {
+        failures.push({ ...pair, error: new AclDeniedError(userAddress, [pair.handle]) });
+        return false;
+      }
+      return true;
+    });
+
+    for (const chunk of chunkDecryptRequests(permitted)) {
+      try {
+        Object.assign(values, await this.decryptChunk(chunk, signer, userAddress, options));
+      } catch (err) {
+        const error = toFhevmError(err);
+        if (error instanceof AbortedError) throw error;
+        failures.push(...chunk.map(pair => ({ ...pair, error })));
+      }
+    }
+
+    return { values, failures };
+  }
+
+  private async decryptChunk(
+    chunk: HandleContractPair[],
+    signer: ethers.Signer,
+    userAddress: string,
+    options: DecryptOptions
+  ): Promise<DecryptResults> {
+    const session = await getDecryptionSession(
+      this.chainId,
+      userAddress,
+      [...new Set(chunk.map(p => p.contractAddress))],
+      options,
+      (contractAddresses, durationDays) => this.createDecryptionSession(signer, contractAddresses, durationDays, options.signal),
+      this.walletProvider
+    );
+
+    let result: Record<string, DecryptedValue>;
+    try {
+      result = await withRetry(
+        () => this.instance.userDecrypt(
+          chunk,
+          session.privateKey,
+          session.publicKey,
+          session.signature,
+          session.contractAddresses,
+          userAddress,
+          session.startTimestamp,
+          session.durationDays
+        ),
+        { ...this.requestOptions(options), retryOnTimeout: false }
+      );
+    } catch (error) {
+      // Do not keep reusing a session the relayer may have rejected; the next call signs again
+      if (!(error instanceof AbortedError || error instanceof TimeoutError || error instanceof RelayerUnavailableError)) {
+        await invalidateDecryptionSession(this.chainId, userAddress);
+      }
+      throw error;
+    }
+    return this.expectClearValues(result, chunk.map(p => p.handle));
+  }
+
+  /**
+   * Public decryption of handles marked publicly decryptable, with the KMS proof for on-chain verification.
+   * The clear values are re-encoded with each handle's type and must match what the relayer signed;
+   * anything FHE.checkSignatures would reject throws a PublicDecryptionError instead.
+   */
+  async publicDecrypt(handles: string[], options: RequestOptions = {}): Promise<PublicDecryptResult> {
+    const normalized = handles.map(toHandle);
+    if (typeof (this.instance as Partial<FhevmInstance>).publicDecrypt !== 'function') {
+      throw new PublicDecryptionError('Relayer does not support public decryption with proofs', normalized);
+    }
+
+    const result = await withRetry(() => this.instance.publicDecrypt(normalized), this.requestOptions(options));
+    if (!result || !ethers.isHexString(result.abiEncodedClearValues) || !ethers.isHexString(result.decryptionProof)) {
+      throw new PublicDecryptionError('Invalid publicDecrypt result structure', normalized);
+    }
+    if (ethers.dataLength(result.decryptionProof) === 0) {
+      throw new PublicDecryptionError('Relayer returned no decryption proof', normalized);
+    }
+
+    let clearValues: DecryptResults;
+    let abiEncodedClearValues: Hex;
+    try {
+      clearValues = this.expectClearValues(result.clearValues, normalized);
+      abiEncodedClearValues = encodeClearValues(normalized, clearValues);
+    } catch (error) {
+      throw new PublicDecryptionError(`Clear values do not match their handle types: ${toFhevmError(error).message}`, normalized, error);
+    }
+    if (abiEncodedClearValues !== result.abiEncodedClearValues.toLowerCase()) {
+      throw new PublicDecryptionError('ABI-encoded clear values do not match the decrypted values', normalized);
+    }
+
+    return {
+      clearValues,
+      abiEncodedClearValues,
+      decryptionProof: result.decryptionProof,
+    };
+  }
+
+  private requestOptions(options: RequestOptions): RequestOptions {
+    return { ...this.retry, ...options };
+  }
+
+  /**
+   * Make sure a signer's wallet is on this client's chain before asking it to sign
+   */
+  private async assertSignerChain(signer: ethers.Signer) {
+    if (!signer.provider) return;
+    const { chainId } = await signer.provider.getNetwork();
+    if (Number(chainId) !== this.chainId) {
+      throw new ChainMismatchError(this.chainId, Number(chainId), this.network.name);
+    }
+  }
+
+  /**
+   * Re-key clear values by normalized handle and make sure none is missing
+   */
+  private expectClearValues(values: Record<string, DecryptedValue> | undefined, handles: Handle[]): DecryptResults {
+    const byHandle: DecryptResults = {};
+    for (const [handle, value] of Object.entries(values ?? {})) {
+      byHandle[toHandle(handle)] = value;
+    }
+
+    const missing = handles.filter(handle => !(handle in byHandle));
+    if (missing.length > 0) {
+      throw new InvalidResponseError(`Relayer returned no clear value for handles: ${missing.join(', ')}`);
+    }
+    return byHandle;
+  }
+}
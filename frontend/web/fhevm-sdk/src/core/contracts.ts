@@ -50,3 +50,22 @@ export class FhevmContract {
   }
 }
 
+
+/**
+ * Read role membership from an AccessControl-style contract.
+ * Role ids are resolved from the contract's public constants (e.g. CLINIC_ROLE).
+ */
+export async function fetchRoles(
+  contract: ethers.BaseContract,
+  account: string,
+  roleNames: string[]
+): Promise<Record<string, boolean>> {
+  const entries = await Promise.all(
+    roleNames.map(async (roleName) => {
+      const roleId = await contract.getFunction(roleName)();
+      const granted: boolean = await contract.getFunction('hasRole')(roleId, account);
+      return [roleName, granted] as const;
+    })
+  );
+  return Object.fromEntries(entries);
+}
@@ -0,0 +1,145 @@
+/**
+ * Encryption Fields - Typed values for encrypted inputs
+ * Covers every type the FHEVM input verifier accepts, with range checks against the declared width
+ */
+
+import { ethers } from 'ethers';
+import { InvalidOptionError, ValidationError } from './errors.js';
+
+export type EncryptedUintType = 'uint8' | 'uint16' | 'uint32' | 'uint64' | 'uint128' | 'uint256';
+
+export type EncryptedValueType = 'bool' | 'address' | EncryptedUintType;
+
+/**
+ * Encrypted field descriptor for multi-value inputs
+ */
+export type EncryptedFieldInput =
+  | { type: 'bool'; value: boolean }
+  | { type: 'address'; value: string }
+  | { type: EncryptedUintType; value: number | bigint };
+
+export type PlainValue = EncryptedFieldInput['value'];
+
+export interface AbiParameter {
+  name?: string;
+  type: string;
+  internalType?: string;
+}
+
+export interface AbiFragment {
+  type: string;
+  name?: string;
+  inputs?: readonly AbiParameter[];
+}
+
+const UINT_BITS: Record<EncryptedUintType, number> = {
+  uint8: 8,
+  uint16: 16,
+  uint32: 32,
+  uint64: 64,
+  uint128: 128,
+  uint256: 256,
+};
+
+// Solidity external input types from @fhevm/solidity (e.g. externalEuint32)
+const EXTERNAL_TYPES: Record<string, EncryptedValueType> = {
+  externalEbool: 'bool',
+  externalEaddress: 'address',
+  externalEuint8: 'uint8',
+  externalEuint16: 'uint16',
+  externalEuint32: 'uint32',
+  externalEuint64: 'uint64',
+  externalEuint128: 'uint128',
+  externalEuint256: 'uint256',
+};
+
+function uint(type: EncryptedUintType) {
+  return (value: number | bigint): EncryptedFieldInput => validateField({ type, value });
+}
+
+/**
+ * Typed field builders, validated on construction:
+ * encrypt.u32(age), encrypt.u64(10n ** 18n), encrypt.bool(true), encrypt.address(account)
+ */
+export const encrypt = {
+  u8: uint('uint8'),
+  u16: uint('uint16'),
+  u32: uint('uint32'),
+  u64: uint('uint64'),
+  u128: uint('uint128'),
+  u256: uint('uint256'),
+  bool: (value: boolean): EncryptedFieldInput => validateField({ type: 'bool', value }),
+  address: (value: string): EncryptedFieldInput => validateField({ type: 'address', value }),
+};
+
+/**
+ * Check a field's value against its type, throwing on out-of-range or mistyped values.
+ * Numbers must be safe integers; use bigint for larger 64-bit and wider values.
+ */
+export function validateField(field: EncryptedFieldInput): EncryptedFieldInput {
+  switch (field.type) {
+    case 'bool':
+      if (typeof field.value !== 'boolean') {
+        throw new ValidationError('bool', `Expected a boolean for bool, got ${typeof (field as { value: unknown }).value}`);
+      }
+      return field;
+    case 'address':
+      if (typeof field.value !== 'string' || !ethers.isAddress(field.value)) {
+        throw new ValidationError('address', `Invalid address for encryption: ${String(field.value)}`);
+      }
+      return { type: 'address', value: ethers.getAddress(field.value) };
+    default: {
+      const { type, value } = field;
+      if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+        throw new ValidationError(type, `${value} is not a safe integer for ${type}; pass a bigint instead`);
+      }
+      if (typeof value !== 'number' && typeof value !== 'bigint') {
+        throw new ValidationError(type, `Expected a number or bigint for ${type}, got ${typeof value}`);
+      }
+      const bits = UINT_BITS[type];
+      if (BigInt(value) < 0n || BigInt(value) >= 1n << BigInt(bits)) {
+        throw new ValidationError(type, `${value} is out of range for ${type} (0 to 2^${bits} - 1)`);
+      }
+      return field;
+    }
+  }
+}
+
+/**
+ * Map a Solidity internal type such as externalEuint32 to the matching encrypted value type
+ */
+export function encryptedTypeFromAbi(internalType: string): EncryptedValueType {
+  const type = EXTERNAL_TYPES[internalType];
+  if (!type) {
+    throw new InvalidOptionError('abi', `unsupported encrypted input type ${internalType}`);
+  }
+  return type;
+}
+
+/**
+ * Build typed fields for a contract function from its ABI.
+ * Values are matched in order to the function's external encrypted parameters,
+ * so the right bit width is chosen without restating it in the caller.
+ */
+export function fieldsForFunction(abi: readonly AbiFragment[], functionName: string, values: PlainValue[]): EncryptedFieldInput[] {
+  const candidates = abi
+    .filter(fragment => fragment.type === 'function' && fragment.name === functionName)
+    .map(fragment => (fragment.inputs ?? []).filter(input => input.internalType?.startsWith('externalE')));
+
+  if (candidates.length === 0) {
+    throw new InvalidOptionError('functionName', `${functionName} not found in ABI`);
+  }
+  // Overloads are told apart by their number of encrypted parameters
+  const params = candidates.find(inputs => inputs.length === values.length);
+  if (!params) {
+    throw new ValidationError('values', `${functionName} expects ${candidates.map(inputs => inputs.length).join(' or ')} encrypted values, got ${values.length}`);
+  }
+
+  return params.map((param, i) => {
+    try {
+      return validateField({ type: encryptedTypeFromAbi(param.internalType!), value: values[i] } as EncryptedFieldInput);
+    } catch (err) {
+      throw new ValidationError(param.name || String(i), `Invalid value for ${functionName}(${param.name || i}): ${err instanceof Error ? err.message : err}`, err);
+    }
+  });
+}
@@ -0,0 +1,284 @@
+/**
+ * FHEVM Errors - Typed failures callers can tell apart with instanceof or `code`
+ */
+
+import { ethers } from 'ethers';
+
+export type FhevmErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'RELAYER_UNAVAILABLE'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'USER_REJECTED'
+  | 'ACL_DENIED'
+  | 'INVALID_HANDLE'
+  | 'INVALID_OPTION'
+  | 'VALIDATION_FAILED'
+  | 'NO_SIGNER'
+  | 'INVALID_RESPONSE'
+  | 'PROVIDER_UNAVAILABLE'
+  | 'CHAIN_MISMATCH'
+  | 'PUBLIC_DECRYPTION_FAILED'
+  | 'CONTRACT_REVERT'
+  | 'UNKNOWN';
+
+// require() messages of UniversalFHEAdapter (contracts/RareDisease_Z.sol)
+export const REGISTRY_REVERT_REASONS = [
+  'Access not granted',
+  'Business data already exists',
+  'Business data does not exist',
+  'Cannot revoke own admin role',
+  'Category does not exist',
+  'Cohort too small',
+  'Consent withdrawn',
+  'Data already verified',
+  'Identity commitment required',
+  'Invalid account',
+  'Invalid encrypted input',
+  'Missing role',
+  'Not a researcher',
+  'Only creator',
+  'Pseudonym required',
+  'Role already granted',
+  'Role not granted',
+] as const;
+
+export type RegistryRevertReason = typeof REGISTRY_REVERT_REASONS[number];
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * The relayer (or gateway behind it) could not be reached
+ */
+export class RelayerUnavailableError extends FhevmError {
+  constructor(cause?: unknown) {
+    super('RELAYER_UNAVAILABLE', 'FHEVM relayer is temporarily unavailable. Please try again later.', cause);
+  }
+}
+
+/**
+ * A relayer request did not answer within its timeout
+ */
+export class TimeoutError extends FhevmError {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super('TIMEOUT', `FHEVM relayer did not respond within ${timeoutMs}ms`);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller cancelled the request through its AbortSignal
+ */
+export class AbortedError extends FhevmError {
+  constructor(cause?: unknown) {
+    super('ABORTED', 'Request was cancelled', cause);
+  }
+}
+
+/**
+ * The user declined a wallet signature or transaction
+ */
+export class UserRejectedError extends FhevmError {
+  constructor(cause?: unknown) {
+    super('USER_REJECTED', 'Request rejected in the wallet', cause);
+  }
+}
+
+/**
+ * The ACL does not allow the account (or the contract holding the handle) to decrypt
+ */
+export class AclDeniedError extends FhevmError {
+  readonly handles: string[];
+  readonly account: string;
+
+  constructor(account: string, handles: string[]) {
+    super('ACL_DENIED', `Decryption access not granted to ${account} for handles: ${handles.join(', ')}`);
+    this.account = account;
+    this.handles = handles;
+  }
+}
+
+/**
+ * Not a 32-byte ciphertext handle of a known FHE type
+ */
+export class InvalidHandleError extends FhevmError {
+  readonly handle: string;
+
+  constructor(handle: string, reason = 'Invalid ciphertext handle') {
+    super('INVALID_HANDLE', `${reason}: ${handle}`);
+    this.handle = handle;
+  }
+}
+
+/**
+ * An option passed to an SDK call is out of range
+ */
+export class InvalidOptionError extends FhevmError {
+  readonly option: string;
+
+  constructor(option: string, reason: string) {
+    super('INVALID_OPTION', `Invalid ${option}: ${reason}`);
+    this.option = option;
+  }
+}
+
+/**
+ * A value to encrypt or register does not fit its declared type (or is missing)
+ */
+export class ValidationError extends FhevmError {
+  // The field, parameter or type the value was checked against
+  readonly field: string;
+
+  constructor(field: string, message: string, cause?: unknown) {
+    super('VALIDATION_FAILED', message, cause);
+    this.field = field;
+  }
+}
+
+/**
+ * The call needs a connected wallet or signer and none is available
+ */
+export class NoSignerError extends FhevmError {
+  constructor(message = 'Connect a wallet first') {
+    super('NO_SIGNER', message);
+  }
+}
+
+/**
+ * The relayer (or its WASM library) returned data of an unexpected shape
+ */
+export class InvalidResponseError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('INVALID_RESPONSE', message, cause);
+  }
+}
+
+/**
+ * No wallet provider, relayer SDK script or local FHEVM node to create an instance with
+ */
+export class ProviderUnavailableError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('PROVIDER_UNAVAILABLE', message, cause);
+  }
+}
+
+/**
+ * The wallet is connected to a different chain than the one the client or contract expects
+ */
+export class ChainMismatchError extends FhevmError {
+  readonly expectedChainId: number;
+  readonly actualChainId: number;
+
+  constructor(expectedChainId: number, actualChainId: number, networkName?: string) {
+    super(
+      'CHAIN_MISMATCH',
+      `Wallet is on chain ${actualChainId}; please switch to ${networkName ?? `chain ${expectedChainId}`}`
+    );
+    this.expectedChainId = expectedChainId;
+    this.actualChainId = actualChainId;
+  }
+}
+
+/**
+ * Public decryption produced no result that FHE.checkSignatures could verify
+ */
+export class PublicDecryptionError extends FhevmError {
+  readonly handles: string[];
+
+  constructor(message: string, handles: string[], cause?: unknown) {
+    super('PUBLIC_DECRYPTION_FAILED', message, cause);
+    this.handles = handles;
+  }
+}
+
+/**
+ * A contract call reverted; `registryReason` is set for UniversalFHEAdapter require messages
+ */
+export class ContractRevertError extends FhevmError {
+  readonly reason: string;
+  readonly registryReason: RegistryRevertReason | null;
+
+  constructor(reason: string, cause?: unknown) {
+    super('CONTRACT_REVERT', reason, cause);
+    this.reason = reason;
+    this.registryReason = (REGISTRY_REVERT_REASONS as readonly string[]).includes(reason) ? reason as RegistryRevertReason : null;
+  }
+}
+
+// Error(string) selector used by require() reverts
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+
+// Property of a thrown value, if it is an object
+function prop(value: unknown, key: string): unknown {
+  return typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+}
+
+function stringProp(value: unknown, key: string): string | undefined {
+  const result = prop(value, key);
+  return typeof result === 'string' ? result : undefined;
+}
+
+function decodeRevertReason(error: unknown): string | null {
+  const reason = stringProp(error, 'reason');
+  if (reason) return reason;
+
+  // ethers puts the node's error under info.error, EIP-1193 wallets under error
+  const nested = prop(prop(error, 'info'), 'error');
+  const data = prop(error, 'data') ?? prop(nested, 'data') ?? prop(prop(error, 'error'), 'data');
+  if (typeof data === 'string' && data.startsWith(ERROR_STRING_SELECTOR)) {
+    try {
+      return ethers.AbiCoder.defaultAbiCoder().decode(['string'], '0x' + data.slice(10))[0];
+    } catch {
+      // fall through to the message
+    }
+  }
+
+  const message = stringProp(nested, 'message') ?? stringProp(error, 'shortMessage') ?? stringProp(error, 'message') ?? '';
+  const match = message.match(/reverted(?::| with reason string)\s*['"]?([^'"]+)['"]?/);
+  return match ? match[1].trim() : null;
+}
+
+function isUserRejection(error: unknown): boolean {
+  const code = prop(error, 'code');
+  return (
+    code === 'ACTION_REJECTED' ||
+    code === 4001 ||
+    prop(prop(prop(error, 'info'), 'error'), 'code') === 4001 ||
+    /user (rejected|denied)/i.test(stringProp(error, 'message') ?? '')
+  );
+}
+
+function isRelayerUnavailable(error: unknown): boolean {
+  const message = stringProp(error, 'message') ?? '';
+  return message.includes('Failed to fetch') || message.includes('NetworkError') || message.includes('fetch failed');
+}
+
+/**
+ * Map any thrown value (ethers, EIP-1193, relayer or our own) to an FhevmError
+ */
+export function toFhevmError(error: unknown): FhevmError {
+  if (error instanceof FhevmError) return error;
+  if (prop(error, 'name') === 'AbortError') return new AbortedError(error);
+  if (isUserRejection(error)) return new UserRejectedError(error);
+  if (isRelayerUnavailable(error)) return new RelayerUnavailableError(error);
+
+  if (prop(error, 'code') === 'CALL_EXCEPTION' || /revert/i.test(stringProp(error, 'message') ?? '')) {
+    const reason = decodeRevertReason(error);
+    if (reason) return new ContractRevertError(reason, error);
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new FhevmError('UNKNOWN', message || 'Unknown error', error);
+}
@@ -1,397 +1,233 @@
 /**
  * Universal FHEVM Core - Environment-Aware SDK
  * Supports both browser and Node.js environments
- * Preserves all existing browser functionality
+ * Functional API over a default FhevmClient; create further clients with FhevmClient.create()
  */
 
 import { ethers } from "ethers";
+import { FhevmClient, toHandle, type BatchDecryptResult, type DecryptOptions, type Hex, type PublicDecryptResult } from './client.js';
+import type { AbiFragment, EncryptedFieldInput, EncryptedUintType, PlainValue } from './encryption.js';
+import { FhevmError } from './errors.js';
+import type { FheInstanceOptions } from './instance.js';
+import type { RequestOptions } from './retry.js';
 
-let fheInstance: any = null;
+let defaultClient: FhevmClient | null = null;
 
 /**
- * Initialize FHEVM instance for browser environment
+ * Initialize FHEVM instance - Environment- and chain-aware
+ * Networks come from the registry (networks.ts); mock networks such as
+ * Hardhat (31337) get a mock instance. rpcUrl overrides the network's default node URL.
+ * Passing a signer always uses the Node.js path, so backend jobs can sign headlessly.
+ * The client becomes the default used by the functions below.
  */
-async function initializeBrowserFheInstance() {
-  if (typeof window === 'undefined' || !window.ethereum) {
-    throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
-  }
-
-  // Check for both uppercase and lowercase versions of RelayerSDK
-  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
-
-  if (!sdk) {
-    throw new Error('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
-  }
-
-  const { initSDK, createInstance, SepoliaConfig } = sdk;
-
-  // Try to initialize SDK with CDN first (default behavior)
-  // If it fails (e.g., CORS error), fallback to local WASM files
-  try {
-    await initSDK(); // Try CDN first
-    console.log('✅ FHEVM SDK initialized with CDN');
-  } catch (cdnError) {
-    // If CDN fails (usually CORS), fallback to local WASM files
-    console.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
-    console.log('🔄 Trying local WASM files from public folder...');
-    await initSDK({
-      tfheParams: '/tfhe_bg.wasm',
-      kmsParams: '/kms_lib_bg.wasm'
-    });
-    console.log('✅ FHEVM SDK initialized with local WASM files');
-  }
+export async function initializeFheInstance(options?: FheInstanceOptions): Promise<FhevmClient> {
+  defaultClient = await FhevmClient.create(options);
+  return defaultClient;
+}
 
-  const config = { ...SepoliaConfig, network: window.ethereum };
+export function getFheInstance(): FhevmClient | null {
+  return defaultClient;
+}
 
-  try {
-    fheInstance = await createInstance(config);
-    return fheInstance;
-  } catch (err) {
-    console.error('FHEVM browser instance creation failed:', err);
-    throw err;
-  }
+/**
+ * Default client, throwing if initializeFheInstance() has not completed
+ */
+export function getFhevmClient(): FhevmClient {
+  if (!defaultClient) throw new FhevmError('NOT_INITIALIZED', 'FHE instance not initialized. Call initializeFheInstance() first.');
+  return defaultClient;
 }
 
 /**
- * Initialize FHEVM instance for Node.js environment
- * REAL FUNCTIONALITY - uses actual RelayerSDK
+ * Signer passed to initializeFheInstance (Node.js only), for signing decryptions and transactions
  */
-async function initializeNodeFheInstance(rpcUrl?: string) {
-  try {
-    console.log('🚀 Initializing REAL FHEVM Node.js instance...');
-    
-    // Use eval to prevent webpack from analyzing these imports
-    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
-    const { createInstance, SepoliaConfig, generateKeypair } = relayerSDKModule;
-    
-    // Create an EIP-1193 compatible provider for Node.js
-    const ethersModule = await eval('import("ethers")');
-    const provider = new ethersModule.ethers.JsonRpcProvider(rpcUrl || 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3');
-    
-    // Create EIP-1193 provider wrapper
-    const eip1193Provider = {
-      request: async ({ method, params }: { method: string; params: any[] }) => {
-        switch (method) {
-          case 'eth_chainId':
-            return '0xaa36a7'; // Sepolia chain ID
-          case 'eth_accounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_requestAccounts':
-            return ['---YOUR-ADDRESS-HERE---'];
-          case 'eth_call':
-            // Use the real provider for blockchain calls
-            return await provider.call(params[0]);
-          case 'eth_sendTransaction':
-            // Use the real provider for transactions
-            return await provider.broadcastTransaction(params[0]);
-          default:
-            throw new Error(`Unsupported method: ${method}`);
-        }
-      },
-      on: () => {},
-      removeListener: () => {}
-    };
-    
-    const config = { 
-      ...SepoliaConfig, 
-      network: eip1193Provider 
-    };
-    
-    fheInstance = await createInstance(config);
-    console.log('✅ REAL FHEVM Node.js instance created successfully!');
-    return fheInstance;
-  } catch (err) {
-    console.error('FHEVM Node.js instance creation failed:', err);
-    throw err;
-  }
+export function getFheSigner() {
+  return defaultClient?.signer ?? null;
 }
 
 /**
- * Initialize FHEVM instance - Environment-aware
- * MAINTAINS BACKWARD COMPATIBILITY
+ * Network the current instance was initialized for
  */
-export async function initializeFheInstance(options?: { rpcUrl?: string }) {
-  // Detect environment
-  if (typeof window !== 'undefined' && window.ethereum) {
-    // Browser environment - use existing working code
-    return initializeBrowserFheInstance();
-  } else {
-    // Node.js environment - use new functionality
-    return initializeNodeFheInstance(options?.rpcUrl);
-  }
+export function getFheNetwork() {
+  return defaultClient?.network ?? null;
 }
 
-export function getFheInstance() {
-  return fheInstance;
+/**
+ * Check ACL permissions required for user decryption.
+ * Both the user and the contract holding the handle must be allowed.
+ */
+export async function checkDecryptAccess(
+  handleContractPairs: { handle: string; contractAddress: string }[],
+  userAddress: string,
+  runner: ethers.ContractRunner
+): Promise<boolean[]> {
+  const pairs = handleContractPairs.map(({ handle, contractAddress }) => ({ handle: toHandle(handle), contractAddress }));
+  return getFhevmClient().checkDecryptAccess(pairs, userAddress, runner);
 }
 
 /**
  * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+ * The wallet signs once per session; see DecryptionSessionOptions for duration and contract set,
+ * and RequestOptions for timeout, retries and cancellation.
  */
-export async function decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
-    
-    // Use EIP-712 user decryption instead of public decryption
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = [
-      {
-        handle: encryptedBytes,
-        contractAddress: contractAddress,
-      },
-    ];
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    return Number(result[encryptedBytes]);
-  } catch (error: any) {
-    // Check for relayer/network error
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+export async function decryptValue(
+  encryptedBytes: string,
+  contractAddress: string,
+  signer: ethers.Signer,
+  options?: DecryptOptions
+): Promise<number> {
+  const fhe = getFhevmClient();
+
+  console.log('🔐 Using EIP-712 user decryption for handle:', encryptedBytes);
+
+  // Relayer outages surface as RelayerUnavailableError (see errors.ts)
+  const handle = toHandle(encryptedBytes);
+  const result = await fhe.userDecrypt([{ handle, contractAddress }], signer, options);
+  return Number(result[handle]);
 }
 
 /**
  * Batch decrypt multiple encrypted values using EIP-712 user decryption
  */
 export async function batchDecryptValues(
-  handles: string[], 
-  contractAddress: string, 
-  signer: any
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer,
+  options?: DecryptOptions
 ): Promise<Record<string, number>> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
-    
-    const keypair = fhe.generateKeypair();
-    const handleContractPairs = handles.map(handle => ({
-      handle,
-      contractAddress: contractAddress,
-    }));
-    
-    const startTimeStamp = Math.floor(Date.now() / 1000).toString();
-    const durationDays = "10";
-    const contractAddresses = [contractAddress];
-
-    const eip712 = fhe.createEIP712(
-      keypair.publicKey,
-      contractAddresses,
-      startTimeStamp,
-      durationDays
-    );
-
-    const signature = await signer.signTypedData(
-      eip712.domain,
-      {
-        UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
-      },
-      eip712.message
-    );
-
-    const result = await fhe.userDecrypt(
-      handleContractPairs,
-      keypair.privateKey,
-      keypair.publicKey,
-      signature.replace("0x", ""),
-      contractAddresses,
-      await signer.getAddress(),
-      startTimeStamp,
-      durationDays
-    );
-
-    // Convert result to numbers
-    const decryptedValues: Record<string, number> = {};
-    for (const handle of handles) {
-      decryptedValues[handle] = Number(result[handle]);
-    }
-
-    return decryptedValues;
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
+  const { values, failures } = await batchDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    signer,
+    options
+  );
+  if (failures.length > 0) throw failures[0].error;
+
+  // Convert result to numbers, keyed by the handles as passed in
+  const decryptedValues: Record<string, number> = {};
+  for (const handle of handles) {
+    decryptedValues[handle] = Number(values[toHandle(handle)]);
   }
+
+  return decryptedValues;
+}
+
+/**
+ * Decrypt handles from any number of contracts with as few wallet signatures as possible.
+ * Values keep their type (bigint, boolean or address); failed handles are listed in `failures`.
+ */
+export async function batchDecrypt(
+  pairs: { handle: string; contractAddress: string }[],
+  signer: ethers.Signer,
+  options?: DecryptOptions
+): Promise<BatchDecryptResult> {
+  const fhe = getFhevmClient();
+
+  console.log(`🔐 Using EIP-712 batch user decryption for ${pairs.length} handles`);
+
+  return fhe.batchUserDecrypt(pairs, signer, options);
 }
 
 /**
  * Encrypt values using FHEVM
- * 
+ *
  * 📝 BIT SIZE SUPPORT:
- * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
- * than the default 32-bit, you can use the appropriate method:
- * - add8(value)   - for 8-bit values (0-255)
- * - add16(value) - for 16-bit values (0-65535) 
- * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
- * - add64(value) - for 64-bit values (0-18446744073709551615)
- * - add128(value) - for 128-bit values
- * - add256(value) - for 256-bit values
- * 
- * Example: If your contract expects 8-bit values, replace add32() with add8()
+ * FHEVM supports different bit sizes for encrypted values. Pass the width your contract expects
+ * (default 8-bit); values are range-checked against it:
+ * - uint8   - 0-255 - DEFAULT
+ * - uint16  - 0-65535
+ * - uint32  - 0-4294967295
+ * - uint64  - 0-18446744073709551615 (pass a bigint above Number.MAX_SAFE_INTEGER)
+ * - uint128 / uint256 - bigint
+ *
+ * For mixed types use createEncryptedInputs() with the encrypt.u8()...encrypt.address() builders,
+ * or createEncryptedInputsFor() to read the types from the contract ABI.
  */
 export async function encryptValue(
   contractAddress: string,
   address: string,
-  plainDigits: number[]
+  plainDigits: (number | bigint)[],
+  type: EncryptedUintType = 'uint8',
+  options?: RequestOptions
 ) {
-  const relayer = getFheInstance();
-  if (!relayer) throw new Error("FHEVM not initialized");
-
-  const inputHandle = relayer.createEncryptedInput(contractAddress, address);
-  for (const d of plainDigits) {
-    inputHandle.add8(d);
-  }
-  
-  const ciphertextBlob = await inputHandle.encrypt();
-  return ciphertextBlob;
+  return getFhevmClient().encrypt(
+    contractAddress,
+    address,
+    plainDigits.map(value => ({ type, value })),
+    options
+  );
 }
 
 /**
  * Create encrypted input for contract interaction (matches showcase API)
+ * Encrypts a uint32 unless another width is given
  */
-export async function createEncryptedInput(contractAddress: string, userAddress: string, value: number) {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
+export async function createEncryptedInput(
+  contractAddress: string,
+  userAddress: string,
+  value: number | bigint,
+  type: EncryptedUintType = 'uint32',
+  options?: RequestOptions
+): Promise<{ encryptedData: Hex; proof: Hex }> {
   console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
-  
-  const inputHandle = fhe.createEncryptedInput(contractAddress, userAddress);
-  inputHandle.add32(value);
-  const result = await inputHandle.encrypt();
-  
+
+  const { handles, inputProof } = await getFhevmClient().encrypt(contractAddress, userAddress, [{ type, value }], options);
+
   console.log('✅ Encrypted input created successfully');
-  console.log('🔍 Encrypted result structure:', result);
-  
-  // The FHEVM SDK returns an object with handles and inputProof
-  // We need to extract the correct values for the contract
-  if (result && typeof result === 'object') {
-    // If result has handles array, use the first handle
-    if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
-      return {
-        encryptedData: result.handles[0],
-        proof: result.inputProof
-      };
-    }
-    // If result has encryptedData and proof properties
-    else if (result.encryptedData && result.proof) {
-      return {
-        encryptedData: result.encryptedData,
-        proof: result.proof
-      };
-    }
-    // Fallback: use the result as-is
-    else {
-      return {
-        encryptedData: result,
-        proof: result
-      };
-    }
-  }
-  
-  // If result is not an object, use it directly
+
   return {
-    encryptedData: result,
-    proof: result
+    encryptedData: handles[0],
+    proof: inputProof
   };
 }
 
-export async function publicDecryptV09(handles: string[]): Promise<{
-  clearValues: { [handle: string]: bigint };
-  abiEncodedClearValues: string;
-  decryptionProof: string;
-}> {
-  const fhe = getFheInstance();
-  if (!fhe) throw new Error('FHE instance not initialized. Call initializeFheInstance() first.');
-
-  try {
-    console.log('🔐 Starting v0.9 public decryption for handles:', handles);
-    
-    if (typeof fhe.publicDecrypt === 'function') {
-      const result = await fhe.publicDecrypt(handles);
-      
-      if (result && result.clearValues && result.abiEncodedClearValues && result.decryptionProof) {
-        return result;
-      } else {
-        throw new Error('Invalid publicDecrypt result structure');
-      }
-    } else {
-      console.warn('⚠️ Using fallback decryption for v0.9 compatibility');
-      
-      const clearValues: { [handle: string]: bigint } = {};
-      let abiEncodedClearValues = '0x';
-      const decryptionProof = '0x';
-      
-      for (const handle of handles) {
-        if (typeof handle === "string" && handle.startsWith("0x") && handle.length === 66) {
-          const values = await fhe.publicDecrypt([handle]);
-          const clearValue = BigInt(values[handle]);
-          clearValues[handle] = clearValue;
-        } else {
-          throw new Error('Invalid ciphertext handle for decryption');
-        }
-      }
-
-      if (handles.length === 1) {
-
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          ['uint32'], 
-          [Number(clearValues[handles[0]])]
-        );
-      } else {
-
-        const values = handles.map(handle => Number(clearValues[handle]));
-        abiEncodedClearValues = ethers.AbiCoder.defaultAbiCoder().encode(
-          Array(values.length).fill('uint32'), 
-          values
-        );
-      }
-      
-      return {
-        clearValues,
-        abiEncodedClearValues,
-        decryptionProof
-      };
-    }
-  } catch (error: any) {
-    if (error?.message?.includes('Failed to fetch') || error?.message?.includes('NetworkError')) {
-      throw new Error('Decryption service is temporarily unavailable. Please try again later.');
-    }
-    throw error;
-  }
+/**
+ * Create one encrypted input holding several typed values that share a single inputProof.
+ * Handles are returned in the same order as the fields.
+ */
+export async function createEncryptedInputs(
+  contractAddress: string,
+  userAddress: string,
+  fields: EncryptedFieldInput[],
+  options?: RequestOptions
+) {
+  console.log(`🔐 Creating encrypted input with ${fields.length} fields for contract ${contractAddress}, user ${userAddress}`);
+
+  const result = await getFhevmClient().encrypt(contractAddress, userAddress, fields, options);
+
+  console.log('✅ Encrypted input created successfully');
+
+  return result;
 }
 
+/**
+ * Create one encrypted input for a contract function, with each value's type
+ * taken from the function's externalEuintN / externalEbool / externalEaddress parameters
+ */
+export async function createEncryptedInputsFor(
+  contractAddress: string,
+  userAddress: string,
+  abi: readonly AbiFragment[],
+  functionName: string,
+  values: PlainValue[],
+  options?: RequestOptions
+) {
+  console.log(`🔐 Creating encrypted input for ${functionName} on contract ${contractAddress}, user ${userAddress}`);
+
+  const result = await getFhevmClient().encryptFor(contractAddress, userAddress, abi, functionName, values, options);
+
+  console.log('✅ Encrypted input created successfully');
+
+  return result;
+}
+
+/**
+ * Public decryption with a KMS proof for FHE.checkSignatures (FHE v0.9)
+ * Clear values are ABI-encoded in handle order with each handle's own type (bool, uintN, address).
+ * Throws PublicDecryptionError when no verifiable proof is available, RelayerUnavailableError on outages.
+ */
+export async function publicDecryptV09(handles: string[], options?: RequestOptions): Promise<PublicDecryptResult> {
+  const fhe = getFhevmClient();
+
+  console.log('🔐 Starting v0.9 public decryption for handles:', handles);
+
+  return fhe.publicDecrypt(handles, options);
+}
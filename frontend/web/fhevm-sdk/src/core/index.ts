@@ -5,5 +5,13 @@
 
 // Core FHEVM functionality - All functions consolidated in fhevm.ts
 export * from './fhevm.js';
+export * from './client.js';
+export * from './encryption.js';
+export * from './errors.js';
+export * from './instance.js';
 export * from './contracts.js';
+export * from './pseudonyms.js';
+export * from './sessions.js';
+export * from './retry.js';
+export * from './networks.js';
 
@@ -0,0 +1,277 @@
+/**
+ * FHEVM Relayer Instances - Environment- and chain-aware creation
+ * Browser (wallet provider), Node.js (JSON-RPC + optional signer) and local mock instances
+ */
+
+import { ethers } from "ethers";
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+import { InvalidOptionError, NoSignerError, ProviderUnavailableError } from './errors.js';
+import { getNetwork, SEPOLIA_NETWORK, toChainIdHex, type FhevmNetwork } from './networks.js';
+import { withRetry, type RetryOptions } from './retry.js';
+
+// Verifying contracts of the plugin's mock gateway (@fhevm/hardhat-plugin constants)
+const MOCK_DECRYPTION_ADDRESS = '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64';
+const MOCK_INPUT_VERIFICATION_ADDRESS = '0x812b06e1CDCE800494b79fFE4f925A504a9A9810';
+
+/**
+ * A relayer instance together with the network and signer it was created for
+ */
+export interface RelayerInstanceContext {
+  instance: FhevmInstance;
+  network: FhevmNetwork;
+  aclContractAddress: string;
+  signer: ethers.Signer | null;
+  // Wallet provider of the browser path, whose account and chain changes end decryption sessions
+  walletProvider?: ethers.Eip1193Provider;
+}
+
+/**
+ * Initialize a mock FHEVM instance against a local Hardhat node.
+ * Encryption and decryption are served by the node itself, so no relayer or WASM is needed.
+ */
+async function createMockInstance(network: FhevmNetwork, rpcUrl: string, signer: ethers.Signer | null): Promise<RelayerInstanceContext> {
+  const chainId = network.chainId;
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+
+  let metadata: {
+    ACLAddress: `0x${string}`;
+    InputVerifierAddress: `0x${string}`;
+    KMSVerifierAddress: `0x${string}`;
+    gatewayChainId: number;
+  };
+  try {
+    metadata = await provider.send('fhevm_relayer_metadata', []);
+  } catch (err) {
+    throw new ProviderUnavailableError(`No FHEVM mock found at ${rpcUrl}. Start a local node with "npx hardhat node" (requires @fhevm/hardhat-plugin).`, err);
+  }
+
+  // Peer dependency, only loaded for local chains so it stays out of production bundles
+  const { MockFhevmInstance } = await import('@fhevm/mock-utils');
+
+  try {
+    const instance = await MockFhevmInstance.create(
+      provider,
+      provider,
+      {
+        aclContractAddress: metadata.ACLAddress,
+        chainId,
+        gatewayChainId: metadata.gatewayChainId,
+        inputVerifierContractAddress: metadata.InputVerifierAddress,
+        kmsContractAddress: metadata.KMSVerifierAddress,
+        verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+        verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS,
+      },
+      {
+        inputVerifierProperties: {},
+        kmsVerifierProperties: {},
+      }
+    );
+    console.log(`✅ Mock FHEVM instance created for local chain ${chainId}`);
+    return { instance, network, aclContractAddress: metadata.ACLAddress, signer };
+  } catch (err) {
+    console.error('FHEVM mock instance creation failed:', err);
+    throw err;
+  }
+}
+
+/**
+ * Relayer SDK instance config for a registered network
+ */
+function toRelayerConfig(network: FhevmNetwork, provider: unknown) {
+  if (!network.fhevm || !network.relayerUrl) {
+    throw new InvalidOptionError('network', `${network.name} has no FHEVM relayer configuration`);
+  }
+  return { ...network.fhevm, chainId: network.chainId, relayerUrl: network.relayerUrl, network: provider };
+}
+
+/**
+ * Initialize FHEVM instance for browser environment
+ * The network is selected from the connected wallet's chain
+ */
+async function createBrowserInstance(options: FheInstanceOptions = {}): Promise<RelayerInstanceContext> {
+  const { rpcUrl } = options;
+  const provider = options.provider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+  if (!provider) {
+    throw new ProviderUnavailableError('Ethereum provider not found. Please install MetaMask or connect a wallet.');
+  }
+
+  const network = getNetwork(options.chainId ?? await provider.request({ method: 'eth_chainId' }));
+  if (network.mock) {
+    return { ...(await createMockInstance(network, rpcUrl || network.rpcUrls[0], null)), walletProvider: provider };
+  }
+
+  // Check for both uppercase and lowercase versions of RelayerSDK
+  let sdk = (window as any).RelayerSDK || (window as any).relayerSDK;
+
+  if (!sdk) {
+    throw new ProviderUnavailableError('RelayerSDK not loaded. Please include the script tag in your HTML:\n<script src="https://cdn.zama.org/relayer-sdk-js/0.3.0-5/relayer-sdk-js.umd.cjs"></script>');
+  }
+
+  const { initSDK, createInstance } = sdk;
+
+  // Try to initialize SDK with CDN first (default behavior)
+  // If it fails (e.g., CORS error), fallback to local WASM files
+  try {
+    await initSDK(); // Try CDN first
+    console.log('✅ FHEVM SDK initialized with CDN');
+  } catch (cdnError) {
+    // If CDN fails (usually CORS), fallback to local WASM files
+    console.warn('⚠️ CDN initialization failed, falling back to local WASM files:', cdnError);
+    console.log('🔄 Trying local WASM files from public folder...');
+    await initSDK({
+      tfheParams: '/tfhe_bg.wasm',
+      kmsParams: '/kms_lib_bg.wasm'
+    });
+    console.log('✅ FHEVM SDK initialized with local WASM files');
+  }
+
+  const config = toRelayerConfig(network, provider);
+
+  try {
+    const instance: FhevmInstance = await withRetry(() => createInstance(config), { ...options.retry, signal: options.signal });
+    return { instance, network, aclContractAddress: config.aclContractAddress, signer: null, walletProvider: provider };
+  } catch (err) {
+    console.error('FHEVM browser instance creation failed:', err);
+    throw err;
+  }
+}
+
+/**
+ * Signer for headless use: an ethers Signer, a private key, or an encrypted JSON keystore file
+ */
+export type NodeSignerInput =
+  | ethers.Signer
+  | string
+  | { keystorePath: string; password: string };
+
+export interface FheInstanceOptions {
+  rpcUrl?: string;
+  chainId?: number;
+  signer?: NodeSignerInput;
+  // Wallet provider for the browser path (defaults to window.ethereum), e.g. the connector picked in wagmi
+  provider?: ethers.Eip1193Provider;
+  // Timeout and retry policy for relayer requests, also used by the client afterwards
+  retry?: RetryOptions;
+  signal?: AbortSignal;
+}
+
+async function resolveNodeSigner(input: NodeSignerInput, provider: ethers.JsonRpcProvider): Promise<ethers.Signer> {
+  if (typeof input === 'string') {
+    return new ethers.Wallet(input, provider);
+  }
+  if ('keystorePath' in input) {
+    // Use eval to prevent webpack from analyzing these imports
+    const { readFile } = await eval('import("fs/promises")');
+    const keystore = await readFile(input.keystorePath, 'utf8');
+    const wallet = await ethers.Wallet.fromEncryptedJson(keystore, input.password);
+    return wallet.connect(provider);
+  }
+  return input.provider ? input : input.connect(provider);
+}
+
+/**
+ * Convert eth_sendTransaction params (hex quantities) into an ethers transaction request
+ */
+function toTransactionRequest(tx: Record<string, string | undefined>): ethers.TransactionRequest {
+  return {
+    to: tx.to,
+    data: tx.data ?? tx.input,
+    value: tx.value,
+    gasLimit: tx.gas ?? tx.gasLimit,
+    gasPrice: tx.gasPrice,
+    maxFeePerGas: tx.maxFeePerGas,
+    maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    nonce: tx.nonce !== undefined ? Number(tx.nonce) : undefined,
+  };
+}
+
+/**
+ * EIP-1193 provider backed by a JSON-RPC node and an optional signer.
+ * Account and signing methods go through the signer; everything else is passed to the node.
+ */
+function createNodeEip1193Provider(provider: ethers.JsonRpcProvider, signer: ethers.Signer | null) {
+  const requireSigner = (method: string) => {
+    if (!signer) throw new NoSignerError(`${method} requires a signer. Pass one to initializeFheInstance({ signer }).`);
+    return signer;
+  };
+
+  return {
+    request: async ({ method, params = [] }: { method: string; params?: any[] }) => {
+      switch (method) {
+        case 'eth_chainId':
+          return toChainIdHex(Number((await provider.getNetwork()).chainId));
+        case 'eth_accounts':
+        case 'eth_requestAccounts':
+          return signer ? [await signer.getAddress()] : [];
+        case 'eth_sendTransaction': {
+          const tx = await requireSigner(method).sendTransaction(toTransactionRequest(params[0]));
+          return tx.hash;
+        }
+        case 'eth_signTypedData_v4': {
+          const account = requireSigner(method);
+          const [address, payload] = params;
+          if (ethers.getAddress(address) !== await account.getAddress()) {
+            throw new InvalidOptionError('signer', `cannot sign typed data for ${address}, signer is ${await account.getAddress()}`);
+          }
+          const { domain, types, message } = typeof payload === 'string' ? JSON.parse(payload) : payload;
+          // ethers derives the domain type itself
+          const { EIP712Domain, ...messageTypes } = types;
+          return account.signTypedData(domain, messageTypes, message);
+        }
+        default:
+          return provider.send(method, params);
+      }
+    },
+    on: () => {},
+    removeListener: () => {}
+  };
+}
+
+/**
+ * Initialize FHEVM instance for Node.js environment
+ * The network is queried from rpcUrl, or taken from chainId (Sepolia by default)
+ * REAL FUNCTIONALITY - uses actual RelayerSDK
+ */
+async function createNodeInstance(options: FheInstanceOptions = {}): Promise<RelayerInstanceContext> {
+  const rpcUrl = options.rpcUrl || getNetwork(options.chainId ?? SEPOLIA_NETWORK.chainId).rpcUrls[0];
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  const network = getNetwork((await provider.getNetwork()).chainId);
+
+  const signer = options.signer ? await resolveNodeSigner(options.signer, provider) : null;
+
+  if (network.mock) {
+    return createMockInstance(network, rpcUrl, signer);
+  }
+
+  try {
+    console.log('🚀 Initializing REAL FHEVM Node.js instance...');
+    
+    // Use eval to prevent webpack from analyzing these imports
+    const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
+    const { createInstance } = relayerSDKModule;
+    
+    const config = toRelayerConfig(network, createNodeEip1193Provider(provider, signer));
+    
+    const instance: FhevmInstance = await withRetry(() => createInstance(config), { ...options.retry, signal: options.signal });
+    console.log('✅ REAL FHEVM Node.js instance created successfully!');
+    return { instance, network, aclContractAddress: config.aclContractAddress, signer };
+  } catch (err) {
+    console.error('FHEVM Node.js instance creation failed:', err);
+    throw err;
+  }
+}
+
+/**
+ * Create a relayer instance - Environment- and chain-aware
+ * Networks come from the registry (networks.ts); mock networks such as
+ * Hardhat (31337) get a mock instance. rpcUrl overrides the network's default node URL.
+ * Passing a signer always uses the Node.js path, so backend jobs can sign headlessly.
+ */
+export async function createRelayerInstance(options?: FheInstanceOptions): Promise<RelayerInstanceContext> {
+  // Detect environment
+  if ((options?.provider || (typeof window !== 'undefined' && window.ethereum)) && !options?.signer) {
+    return createBrowserInstance(options);
+  } else {
+    return createNodeInstance(options);
+  }
+}
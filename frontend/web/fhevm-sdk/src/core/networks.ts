@@ -0,0 +1,99 @@
+/**
+ * FHEVM Network Registry
+ * One typed entry per supported chain, shared by the SDK initializers and the app
+ */
+
+import { ethers } from 'ethers';
+import { ChainMismatchError, InvalidOptionError } from './errors.js';
+
+export interface FhevmContractAddresses {
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  verifyingContractAddressInputVerification: string;
+  gatewayChainId: number;
+}
+
+export interface FhevmNetwork {
+  chainId: number;
+  name: string;
+  rpcUrls: string[];
+  // Omitted on mock chains, where the node reports its own FHEVM contracts
+  fhevm?: FhevmContractAddresses;
+  relayerUrl?: string;
+  registryAddress?: string;
+  mock?: boolean;
+}
+
+export const SEPOLIA_NETWORK: FhevmNetwork = {
+  chainId: 11155111,
+  name: 'Sepolia',
+  rpcUrls: [
+    'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3',
+    'https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4',
+    'https://ethereum-sepolia-rpc.publicnode.com',
+    'https://rpc.sepolia.org',
+    'https://rpc2.sepolia.org',
+    'https://eth-sepolia.public.blastapi.io',
+  ],
+  // Mirrors SepoliaConfig from @zama-fhe/relayer-sdk 0.3.0-5
+  fhevm: {
+    aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+    kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+    inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+    verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+    verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+    gatewayChainId: 10901,
+  },
+  relayerUrl: 'https://relayer.testnet.zama.org',
+};
+
+// Local node from hardhat.config.ts running the @fhevm/hardhat-plugin mock
+export const HARDHAT_NETWORK: FhevmNetwork = {
+  chainId: 31337,
+  name: 'Hardhat',
+  rpcUrls: ['http://127.0.0.1:8545'],
+  mock: true,
+};
+
+const networks = new Map<number, FhevmNetwork>([
+  [SEPOLIA_NETWORK.chainId, SEPOLIA_NETWORK],
+  [HARDHAT_NETWORK.chainId, HARDHAT_NETWORK],
+]);
+
+/**
+ * Add a network, or replace the entry for its chain id (e.g. to set a registry address)
+ */
+export function registerNetwork(network: FhevmNetwork) {
+  if (!network.mock && (!network.fhevm || !network.relayerUrl)) {
+    throw new InvalidOptionError('network', `${network.name} needs FHEVM contract addresses and a relayer URL`);
+  }
+  networks.set(network.chainId, network);
+}
+
+export function findNetwork(chainId: number | bigint | string): FhevmNetwork | undefined {
+  return networks.get(Number(chainId));
+}
+
+/**
+ * Registered network for a chain; unregistered chains are reported as a mismatch with Sepolia
+ */
+export function getNetwork(chainId: number | bigint | string): FhevmNetwork {
+  const network = findNetwork(chainId);
+  if (!network) {
+    throw new ChainMismatchError(SEPOLIA_NETWORK.chainId, Number(chainId), SEPOLIA_NETWORK.name);
+  }
+  return network;
+}
+
+export function getNetworks(): FhevmNetwork[] {
+  return [...networks.values()];
+}
+
+/**
+ * Hex chain id as reported by eth_chainId (e.g. '0xaa36a7' for Sepolia)
+ */
+export function toChainIdHex(chainId: number) {
+  return ethers.toQuantity(chainId);
+}
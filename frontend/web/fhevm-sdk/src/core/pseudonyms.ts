@@ -0,0 +1,192 @@
+/**
+ * Patient Pseudonyms - Clinic-scoped identifiers
+ * Only the pseudonym and a commitment hash go on-chain; the clinic keeps
+ * an encrypted lookup table in IndexedDB to re-identify its own patients.
+ */
+
+import { ethers } from 'ethers';
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import { InvalidOptionError, ValidationError } from './errors.js';
+
+export interface PatientIdentity {
+  localId: string;
+  name: string;
+}
+
+export interface PatientPseudonym {
+  pseudonym: string;
+  commitment: string;
+}
+
+export interface PatientLookupEntry extends PatientIdentity, PatientPseudonym {
+  nonce: string;
+}
+
+interface ClinicKeys {
+  hmacKey: CryptoKey;
+  encryptionKey: CryptoKey;
+}
+
+interface EncryptedEntry {
+  clinic: string;
+  pseudonym: string;
+  iv: ArrayBuffer;
+  ciphertext: ArrayBuffer;
+}
+
+interface PseudonymDB extends DBSchema {
+  clinicKeys: { key: string; value: ClinicKeys };
+  patients: { key: [string, string]; value: EncryptedEntry };
+}
+
+const DB_NAME = 'fhevm-pseudonyms';
+const PSEUDONYM_PREFIX = 'PSN-';
+// 96 bits of the HMAC output keeps pseudonyms short without practical collisions
+const PSEUDONYM_HEX_LENGTH = 24;
+
+let dbPromise: Promise<IDBPDatabase<PseudonymDB>> | null = null;
+const clinicKeys = new Map<string, Promise<ClinicKeys>>();
+
+function getDb() {
+  if (!dbPromise) {
+    dbPromise = openDB<PseudonymDB>(DB_NAME, 1, {
+      upgrade(db) {
+        db.createObjectStore('clinicKeys');
+        db.createObjectStore('patients', { keyPath: ['clinic', 'pseudonym'] });
+      },
+    });
+  }
+  return dbPromise;
+}
+
+function normalizeClinic(clinic: string) {
+  return ethers.getAddress(clinic).toLowerCase();
+}
+
+function normalizeLocalId(localId: string) {
+  return localId.trim().toUpperCase();
+}
+
+/**
+ * Load the clinic's secret keys, generating them on first use.
+ * Keys are non-extractable, so the lookup table is bound to this browser profile.
+ */
+function getClinicKeys(clinic: string): Promise<ClinicKeys> {
+  // Memoized so concurrent first calls cannot generate two different key sets
+  let keys = clinicKeys.get(clinic);
+  if (!keys) {
+    keys = loadOrCreateClinicKeys(clinic);
+    clinicKeys.set(clinic, keys);
+    keys.catch(() => clinicKeys.delete(clinic));
+  }
+  return keys;
+}
+
+async function loadOrCreateClinicKeys(clinic: string): Promise<ClinicKeys> {
+  const db = await getDb();
+  const existing = await db.get('clinicKeys', clinic);
+  if (existing) return existing;
+
+  const keys: ClinicKeys = {
+    hmacKey: await crypto.subtle.generateKey({ name: 'HMAC', hash: 'SHA-256' }, false, ['sign']),
+    encryptionKey: await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']),
+  };
+  await db.put('clinicKeys', keys, clinic);
+  return keys;
+}
+
+/**
+ * Commitment binding a pseudonym to the local identifier it was derived from
+ */
+export function computeIdentityCommitment(pseudonym: string, localId: string, nonce: string): string {
+  return ethers.solidityPackedKeccak256(['string', 'string', 'bytes32'], [pseudonym, normalizeLocalId(localId), nonce]);
+}
+
+/**
+ * Derive the clinic-scoped pseudonym for a local patient identifier.
+ * The same identifier always maps to the same pseudonym for a given clinic.
+ */
+export async function derivePseudonym(clinic: string, localId: string): Promise<string> {
+  const clinicKey = normalizeClinic(clinic);
+  const { hmacKey } = await getClinicKeys(clinicKey);
+  const message = new TextEncoder().encode(`${clinicKey}:${normalizeLocalId(localId)}`);
+  const mac = new Uint8Array(await crypto.subtle.sign('HMAC', hmacKey, message));
+  return PSEUDONYM_PREFIX + ethers.hexlify(mac).slice(2, 2 + PSEUDONYM_HEX_LENGTH);
+}
+
+/**
+ * Derive a pseudonym and commitment for a patient and record the identity in the lookup table.
+ * Registering a known patient again reuses the stored commitment.
+ */
+export async function registerPatient(clinic: string, identity: PatientIdentity): Promise<PatientPseudonym> {
+  if (!identity.localId.trim()) {
+    throw new ValidationError('localId', 'Local patient identifier is required');
+  }
+
+  const pseudonym = await derivePseudonym(clinic, identity.localId);
+  const existing = (await resolvePseudonyms(clinic, [pseudonym])).get(pseudonym);
+  const nonce = existing?.nonce ?? ethers.hexlify(crypto.getRandomValues(new Uint8Array(32)));
+  const entry: PatientLookupEntry = {
+    localId: identity.localId.trim(),
+    name: identity.name,
+    pseudonym,
+    commitment: computeIdentityCommitment(pseudonym, identity.localId, nonce),
+    nonce,
+  };
+
+  await savePatientEntry(clinic, entry);
+  return { pseudonym: entry.pseudonym, commitment: entry.commitment };
+}
+
+/**
+ * Update the locally held name for a pseudonym; nothing changes on-chain
+ */
+export async function renamePatient(clinic: string, pseudonym: string, name: string): Promise<void> {
+  const entry = (await resolvePseudonyms(clinic, [pseudonym])).get(pseudonym);
+  if (!entry) {
+    throw new InvalidOptionError('pseudonym', `unknown pseudonym ${pseudonym}`);
+  }
+  await savePatientEntry(clinic, { ...entry, name });
+}
+
+/**
+ * Re-identify pseudonyms from the clinic's lookup table.
+ * Pseudonyms registered by other clinics (or on other devices) are simply absent from the result.
+ */
+export async function resolvePseudonyms(clinic: string, pseudonyms: string[]): Promise<Map<string, PatientLookupEntry>> {
+  const clinicKey = normalizeClinic(clinic);
+  const db = await getDb();
+  const resolved = new Map<string, PatientLookupEntry>();
+  if (!(await db.get('clinicKeys', clinicKey))) return resolved;
+
+  const { encryptionKey } = await getClinicKeys(clinicKey);
+  for (const pseudonym of new Set(pseudonyms)) {
+    const stored = await db.get('patients', [clinicKey, pseudonym]);
+    if (!stored) continue;
+
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, encryptionKey, stored.ciphertext);
+    resolved.set(pseudonym, JSON.parse(new TextDecoder().decode(plaintext)));
+  }
+  return resolved;
+}
+
+/**
+ * Check an on-chain commitment against a lookup table entry
+ */
+export function verifyIdentityCommitment(entry: PatientLookupEntry, commitment: string): boolean {
+  return computeIdentityCommitment(entry.pseudonym, entry.localId, entry.nonce) === commitment.toLowerCase();
+}
+
+async function savePatientEntry(clinic: string, entry: PatientLookupEntry) {
+  const clinicKey = normalizeClinic(clinic);
+  const db = await getDb();
+  const { encryptionKey } = await getClinicKeys(clinicKey);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    encryptionKey,
+    new TextEncoder().encode(JSON.stringify(entry))
+  );
+
+  await db.put('patients', { clinic: clinicKey, pseudonym: entry.pseudonym, iv: iv.buffer, ciphertext });
+}
@@ -0,0 +1,95 @@
+/**
+ * Relayer Requests - Timeouts, retries and cancellation
+ * Transient failures (relayer unreachable, timeouts) are retried with exponential backoff and full jitter.
+ * Timed-out attempts keep running in the background, so heavy requests opt out of retrying timeouts.
+ */
+
+import { AbortedError, RelayerUnavailableError, TimeoutError, toFhevmError } from './errors.js';
+
+export interface RetryOptions {
+  // Per-attempt timeout (default 30s, none for encryption); 0 disables it
+  timeoutMs?: number;
+  // Retries after the first attempt (default 2)
+  retries?: number;
+  // First backoff delay, doubled on every retry (default 500ms)
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface RequestOptions extends RetryOptions {
+  // Cancels the request; pending work is abandoned and AbortedError is thrown
+  signal?: AbortSignal;
+}
+
+export interface RetryPolicy extends RequestOptions {
+  // False for heavy or non-idempotent requests (ZK proofs, user decryption): a retry would run beside the abandoned attempt
+  retryOnTimeout?: boolean;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  timeoutMs: 30_000,
+  retries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+};
+
+/**
+ * Throw AbortedError if the signal has fired
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw new AbortedError(signal.reason);
+  }
+}
+
+/**
+ * Settle with `promise`, or reject on timeout or abort (the underlying work is not interrupted)
+ */
+export function raceRequest<T>(promise: Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = timeoutMs > 0 ? setTimeout(() => reject(new TimeoutError(timeoutMs)), timeoutMs) : undefined;
+    const onAbort = () => reject(new AbortedError(signal?.reason));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(resolve, reject).finally(() => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    });
+  });
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+  return raceRequest(new Promise<void>(resolve => setTimeout(resolve, ms)), 0, signal);
+}
+
+function isTransient(error: unknown, retryOnTimeout: boolean) {
+  return error instanceof RelayerUnavailableError || (retryOnTimeout && error instanceof TimeoutError);
+}
+
+/**
+ * Run a relayer request with a timeout per attempt, retrying transient failures.
+ * Errors are normalized to FhevmError; non-transient ones are thrown immediately.
+ */
+export async function withRetry<T>(request: () => Promise<T>, options: RetryPolicy = {}): Promise<T> {
+  const { timeoutMs, retries, baseDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...stripUndefined(options) };
+  const retryOnTimeout = options.retryOnTimeout ?? true;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await raceRequest(request(), timeoutMs, options.signal);
+    } catch (err) {
+      const error = toFhevmError(err);
+      if (attempt >= retries || !isTransient(error, retryOnTimeout)) throw error;
+
+      const delay = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+      console.warn(`⚠️ Relayer request failed (${error.message}), retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, options.signal);
+    }
+  }
+}
+
+function stripUndefined(options: RetryOptions): RetryOptions {
+  return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+}
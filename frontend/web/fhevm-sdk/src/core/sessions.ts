@@ -0,0 +1,238 @@
+/**
+ * Decryption Sessions - Reusable EIP-712 user-decryption authorizations
+ * One keypair + wallet signature is reused for its validity window instead of
+ * prompting on every decryption. Sessions are stored encrypted in IndexedDB.
+ */
+
+import type { ethers } from 'ethers';
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import { FhevmError, InvalidOptionError } from './errors.js';
+
+export interface DecryptionSession {
+  chainId: number;
+  userAddress: string;
+  publicKey: string;
+  privateKey: string;
+  // Wallet signature over the UserDecryptRequestVerification message, without 0x
+  signature: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+export interface DecryptionSessionOptions {
+  // How long a signature stays valid, in whole days (default 10)
+  durationDays?: number;
+  // Extra contracts to authorize up front, so decrypting from them later needs no new signature
+  contractAddresses?: string[];
+}
+
+interface EncryptedSession {
+  id: string;
+  expiresAt: number;
+  iv: ArrayBuffer;
+  ciphertext: ArrayBuffer;
+}
+
+interface SessionDB extends DBSchema {
+  keys: { key: string; value: CryptoKey };
+  sessions: { key: string; value: EncryptedSession };
+}
+
+const DB_NAME = 'fhevm-decryption-sessions';
+const STORAGE_KEY_ID = 'session-encryption';
+export const DEFAULT_SESSION_DURATION_DAYS = 10;
+// The relayer accepts at most 10 contracts per signed request
+const MAX_SESSION_CONTRACTS = 10;
+// Sessions this close to expiry are renewed rather than risking a rejected request
+const EXPIRY_MARGIN_SECONDS = 5 * 60;
+
+let dbPromise: Promise<IDBPDatabase<SessionDB>> | null = null;
+let storageKey: Promise<CryptoKey> | null = null;
+const watchedWallets = new WeakSet<ethers.Eip1193Provider>();
+const sessions = new Map<string, DecryptionSession>();
+const pendingSessions = new Map<string, Promise<DecryptionSession>>();
+
+function hasIndexedDb() {
+  return typeof indexedDB !== 'undefined' && typeof crypto?.subtle !== 'undefined';
+}
+
+function getDb() {
+  if (!dbPromise) {
+    dbPromise = openDB<SessionDB>(DB_NAME, 1, {
+      upgrade(db) {
+        db.createObjectStore('keys');
+        db.createObjectStore('sessions', { keyPath: 'id' });
+      },
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Non-extractable AES-GCM key protecting stored sessions, generated on first use
+ */
+function getStorageKey(): Promise<CryptoKey> {
+  if (!storageKey) {
+    storageKey = (async () => {
+      const db = await getDb();
+      const existing = await db.get('keys', STORAGE_KEY_ID);
+      if (existing) return existing;
+
+      const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+      await db.put('keys', key, STORAGE_KEY_ID);
+      return key;
+    })();
+    storageKey.catch(() => { storageKey = null; });
+  }
+  return storageKey;
+}
+
+function sessionId(chainId: number, userAddress: string) {
+  return `${chainId}:${userAddress.toLowerCase()}`;
+}
+
+function dedupeAddresses(addresses: string[]) {
+  return [...new Map(addresses.map(address => [address.toLowerCase(), address])).values()];
+}
+
+function expiresAt(session: DecryptionSession) {
+  return session.startTimestamp + session.durationDays * 24 * 60 * 60;
+}
+
+function isUsable(session: DecryptionSession, contractAddresses: string[]) {
+  const now = Math.floor(Date.now() / 1000);
+  const authorized = new Set(session.contractAddresses.map(address => address.toLowerCase()));
+  return (
+    expiresAt(session) - EXPIRY_MARGIN_SECONDS > now &&
+    contractAddresses.every(address => authorized.has(address.toLowerCase()))
+  );
+}
+
+async function loadStoredSession(id: string): Promise<DecryptionSession | null> {
+  if (!hasIndexedDb()) return null;
+
+  const db = await getDb();
+  const stored = await db.get('sessions', id);
+  if (!stored) return null;
+  if (stored.expiresAt <= Math.floor(Date.now() / 1000)) {
+    await db.delete('sessions', id);
+    return null;
+  }
+
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: stored.iv }, await getStorageKey(), stored.ciphertext);
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    // Storage key was reset; the session can no longer be read
+    await db.delete('sessions', id);
+    return null;
+  }
+}
+
+async function storeSession(id: string, session: DecryptionSession) {
+  if (!hasIndexedDb()) return;
+
+  const db = await getDb();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getStorageKey(),
+    new TextEncoder().encode(JSON.stringify(session))
+  );
+  await db.put('sessions', { id, expiresAt: expiresAt(session), iv: iv.buffer, ciphertext });
+}
+
+/**
+ * Drop every cached session when the wallet switches account or chain
+ */
+function watchWallet(wallet: ethers.Eip1193Provider | null | undefined) {
+  // Providers backed by a JSON-RPC node emit no events
+  const events = wallet as (ethers.Eip1193Provider & { on?(event: string, listener: () => void): unknown }) | null | undefined;
+  if (!events?.on || watchedWallets.has(events)) return;
+  watchedWallets.add(events);
+
+  const invalidate = () => {
+    clearDecryptionSessions().catch(err => console.error('Failed to clear decryption sessions:', err));
+  };
+  events.on('accountsChanged', invalidate);
+  events.on('chainChanged', invalidate);
+}
+
+/**
+ * Return a valid session for the account, chain and contracts, creating one with `create` if needed.
+ * A new session also covers the contracts of the one it replaces, so the set only grows.
+ * Sessions are dropped when `wallet` (the provider the client was created with) switches account or chain.
+ */
+export async function getDecryptionSession(
+  chainId: number,
+  userAddress: string,
+  contractAddresses: string[],
+  options: DecryptionSessionOptions,
+  create: (contractAddresses: string[], durationDays: number) => Promise<DecryptionSession>,
+  wallet?: ethers.Eip1193Provider | null
+): Promise<DecryptionSession> {
+  watchWallet(wallet);
+  const id = sessionId(chainId, userAddress);
+  const required = [...contractAddresses, ...(options.contractAddresses ?? [])];
+  const durationDays = options.durationDays ?? DEFAULT_SESSION_DURATION_DAYS;
+  // A shorter session would already be within the expiry margin, and a fresh one would be requested forever
+  if (!Number.isInteger(durationDays) || durationDays < 1) {
+    throw new InvalidOptionError('durationDays', `expected a whole number of days >= 1, got ${durationDays}`);
+  }
+
+  const cached = sessions.get(id) ?? (await loadStoredSession(id));
+  if (cached && isUsable(cached, required)) {
+    sessions.set(id, cached);
+    return cached;
+  }
+
+  // Memoized so concurrent decryptions share one wallet prompt
+  let pending = pendingSessions.get(id);
+  const ownsRequest = !pending;
+  if (!pending) {
+    const previous = cached && isUsable(cached, []) ? cached.contractAddresses : [];
+    const merged = dedupeAddresses([...required, ...previous]);
+    const authorized = merged.length <= MAX_SESSION_CONTRACTS ? merged : dedupeAddresses(required);
+
+    pending = create(authorized, durationDays).then(async session => {
+      sessions.set(id, session);
+      await storeSession(id, session);
+      return session;
+    });
+    pendingSessions.set(id, pending);
+    pending.then(
+      () => pendingSessions.delete(id),
+      () => pendingSessions.delete(id)
+    );
+  }
+
+  const session = await pending;
+  if (isUsable(session, required)) return session;
+  if (ownsRequest) {
+    throw new FhevmError('UNKNOWN', 'The new decryption session is not valid for the requested contracts');
+  }
+  // A session created by a concurrent call may not cover this call's contracts
+  return getDecryptionSession(chainId, userAddress, contractAddresses, options, create, wallet);
+}
+
+/**
+ * Forget the session for one account and chain (e.g. after the relayer rejected it)
+ */
+export async function invalidateDecryptionSession(chainId: number, userAddress: string) {
+  const id = sessionId(chainId, userAddress);
+  sessions.delete(id);
+  if (hasIndexedDb()) {
+    await (await getDb()).delete('sessions', id);
+  }
+}
+
+/**
+ * Forget all sessions, e.g. on logout
+ */
+export async function clearDecryptionSessions() {
+  sessions.clear();
+  if (hasIndexedDb()) {
+    await (await getDb()).clear('sessions');
+  }
+}
@@ -7,5 +7,8 @@
 export * from './core/index.js';
 
 // Framework adapters - explicit exports to avoid conflicts
-export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt, useRoles, useFhevmStore, FhevmProvider, useFhevmContext, type FhevmProviderConfig, type FhevmContextValue } from './adapters/react.js';
+
+// Framework-free state store shared by the React hooks
+export * from './adapters/vanilla.js';
 
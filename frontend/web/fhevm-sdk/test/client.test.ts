@@ -0,0 +1,246 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+import { FhevmClient, encodeClearValues, getHandleBits, getHandleType, toHandle, type Handle } from '../src/core/client.js';
+import { AbortedError, AclDeniedError, InvalidHandleError, PublicDecryptionError } from '../src/core/errors.js';
+import { createRelayerInstance } from '../src/core/instance.js';
+import { SEPOLIA_NETWORK } from '../src/core/networks.js';
+import { clearDecryptionSessions, type DecryptionSession } from '../src/core/sessions.js';
+
+vi.mock('../src/core/instance.js', () => ({ createRelayerInstance: vi.fn() }));
+
+// Handle with the FHE type in byte 30, as the coprocessor lays it out
+function makeHandle(id: number, fheType: number): Handle {
+  return `${ethers.zeroPadValue(ethers.toBeHex(id), 30)}${fheType.toString(16).padStart(2, '0')}00` as Handle;
+}
+
+const BOOL = makeHandle(1, 0);
+const UINT8 = makeHandle(2, 2);
+const UINT32 = makeHandle(3, 4);
+const ADDRESS = makeHandle(4, 7);
+const UINT256 = makeHandle(5, 8);
+const USER = '0x1111111111111111111111111111111111111111';
+const CONTRACT_A = '0x2222222222222222222222222222222222222222';
+const CONTRACT_B = '0x3333333333333333333333333333333333333333';
+
+const coder = ethers.AbiCoder.defaultAbiCoder();
+
+describe('handle types', () => {
+  it('reads the Solidity type and bit width from the FHE type byte', () => {
+    expect([BOOL, UINT8, UINT32, ADDRESS, UINT256].map(getHandleType)).toEqual(['bool', 'uint8', 'uint32', 'address', 'uint256']);
+    expect([BOOL, UINT8, UINT32, ADDRESS, UINT256].map(getHandleBits)).toEqual([2, 8, 32, 160, 256]);
+  });
+
+  it('rejects unknown FHE types and malformed handles', () => {
+    expect(() => getHandleType(makeHandle(6, 1))).toThrow(InvalidHandleError);
+    expect(() => toHandle('0x1234')).toThrow(InvalidHandleError);
+  });
+
+  it('normalizes handles to lowercase hex', () => {
+    expect(toHandle(UINT32.toUpperCase().replace('0X', '0x'))).toBe(UINT32);
+    expect(toHandle(ethers.getBytes(UINT32))).toBe(UINT32);
+  });
+});
+
+describe('encodeClearValues', () => {
+  it('encodes values in handle order with each handle type', () => {
+    const handles = [UINT32, BOOL, ADDRESS, UINT8, UINT256];
+    const encoded = encodeClearValues(handles, {
+      [BOOL]: true,
+      [UINT8]: 7n,
+      [UINT32]: 42n,
+      [ADDRESS]: USER,
+      [UINT256]: 2n ** 200n,
+    });
+
+    expect(encoded).toBe(coder.encode(
+      ['uint32', 'bool', 'address', 'uint8', 'uint256'],
+      [42n, true, USER, 7n, 2n ** 200n]
+    ));
+  });
+
+  it('throws when a value does not fit its handle type', () => {
+    expect(() => encodeClearValues([UINT8], { [UINT8]: 256n })).toThrow();
+  });
+});
+
+describe('FhevmClient.publicDecrypt', () => {
+  let relayer: { publicDecrypt: ReturnType<typeof vi.fn> };
+  let client: FhevmClient;
+
+  beforeEach(async () => {
+    relayer = { publicDecrypt: vi.fn() };
+    vi.mocked(createRelayerInstance).mockResolvedValue({
+      instance: relayer as unknown as FhevmInstance,
+      network: SEPOLIA_NETWORK,
+      aclContractAddress: SEPOLIA_NETWORK.fhevm!.aclContractAddress,
+      signer: null,
+    });
+    client = await FhevmClient.create({ retry: { retries: 1, baseDelayMs: 0 } });
+  });
+
+  const relayerResult = (clearValues: Record<string, unknown>, abiEncodedClearValues: string, decryptionProof = '0xabcdef') =>
+    ({ clearValues, abiEncodedClearValues, decryptionProof });
+
+  it('returns clear values keyed by normalized handle, with the encoding and proof', async () => {
+    const abiEncoded = coder.encode(['uint32', 'bool'], [42n, true]);
+    relayer.publicDecrypt.mockResolvedValue(relayerResult({ [UINT32.toUpperCase().replace('0X', '0x')]: 42n, [BOOL]: true }, abiEncoded));
+
+    const result = await client.publicDecrypt([UINT32, BOOL]);
+
+    expect(relayer.publicDecrypt).toHaveBeenCalledWith([UINT32, BOOL]);
+    expect(result).toEqual({
+      clearValues: { [UINT32]: 42n, [BOOL]: true },
+      abiEncodedClearValues: abiEncoded,
+      decryptionProof: '0xabcdef',
+    });
+  });
+
+  it('rejects an encoding that differs from the decrypted values', async () => {
+    relayer.publicDecrypt.mockResolvedValue(relayerResult({ [UINT32]: 42n }, coder.encode(['uint32'], [43n])));
+
+    await expect(client.publicDecrypt([UINT32])).rejects.toThrow(PublicDecryptionError);
+  });
+
+  it('rejects a missing clear value', async () => {
+    relayer.publicDecrypt.mockResolvedValue(relayerResult({ [UINT32]: 42n }, coder.encode(['uint32', 'bool'], [42n, true])));
+
+    await expect(client.publicDecrypt([UINT32, BOOL])).rejects.toThrow(PublicDecryptionError);
+  });
+
+  it('rejects a result without a decryption proof', async () => {
+    relayer.publicDecrypt.mockResolvedValue(relayerResult({ [UINT32]: 42n }, coder.encode(['uint32'], [42n]), '0x'));
+
+    await expect(client.publicDecrypt([UINT32])).rejects.toThrow('Relayer returned no decryption proof');
+  });
+
+  it('rejects a relayer without public decryption', async () => {
+    vi.mocked(createRelayerInstance).mockResolvedValue({
+      instance: {} as FhevmInstance,
+      network: SEPOLIA_NETWORK,
+      aclContractAddress: SEPOLIA_NETWORK.fhevm!.aclContractAddress,
+      signer: null,
+    });
+    const legacy = await FhevmClient.create();
+
+    await expect(legacy.publicDecrypt([UINT32])).rejects.toThrow(PublicDecryptionError);
+  });
+
+  it('retries when the relayer is unreachable', async () => {
+    relayer.publicDecrypt
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValue(relayerResult({ [UINT8]: 7n }, coder.encode(['uint8'], [7n])));
+
+    const result = await client.publicDecrypt([UINT8]);
+
+    expect(relayer.publicDecrypt).toHaveBeenCalledTimes(2);
+    expect(result.clearValues[UINT8]).toBe(7n);
+  });
+
+  it('throws AbortedError when cancelled while the relayer is pending', async () => {
+    const controller = new AbortController();
+    relayer.publicDecrypt.mockImplementation(() => {
+      controller.abort();
+      return new Promise(() => {});
+    });
+
+    await expect(client.publicDecrypt([UINT8], { signal: controller.signal })).rejects.toThrow(AbortedError);
+    expect(relayer.publicDecrypt).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects malformed handles before calling the relayer', async () => {
+    await expect(client.publicDecrypt(['0x1234'])).rejects.toThrow(InvalidHandleError);
+    expect(relayer.publicDecrypt).not.toHaveBeenCalled();
+  });
+});
+
+describe('FhevmClient.batchUserDecrypt', () => {
+  let relayer: { userDecrypt: ReturnType<typeof vi.fn> };
+  let client: FhevmClient;
+  const signer = { provider: null, getAddress: async () => USER } as unknown as ethers.Signer;
+  const fakeSession = async (_signer: ethers.Signer, contractAddresses: string[], durationDays: number): Promise<DecryptionSession> => ({
+    chainId: SEPOLIA_NETWORK.chainId,
+    userAddress: USER,
+    publicKey: '0x01',
+    privateKey: '0x02',
+    signature: '03',
+    contractAddresses,
+    startTimestamp: Math.floor(Date.now() / 1000),
+    durationDays,
+  });
+
+  beforeEach(async () => {
+    relayer = { userDecrypt: vi.fn(async (pairs: { handle: string }[]) => Object.fromEntries(pairs.map(pair => [pair.handle, 7n]))) };
+    vi.mocked(createRelayerInstance).mockResolvedValue({
+      instance: relayer as unknown as FhevmInstance,
+      network: SEPOLIA_NETWORK,
+      aclContractAddress: SEPOLIA_NETWORK.fhevm!.aclContractAddress,
+      signer: null,
+    });
+    client = await FhevmClient.create({ retry: { retries: 0, baseDelayMs: 0 } });
+    vi.spyOn(client, 'createDecryptionSession').mockImplementation(fakeSession);
+  });
+
+  it('keeps one pair per handle and contract', async () => {
+    const check = vi.spyOn(client, 'checkDecryptAccess').mockImplementation(async pairs => pairs.map(() => true));
+
+    const result = await client.batchUserDecrypt([
+      { handle: UINT8, contractAddress: CONTRACT_A },
+      { handle: UINT8.toUpperCase().replace('0X', '0x'), contractAddress: CONTRACT_A.toUpperCase().replace('0X', '0x') },
+      { handle: UINT8, contractAddress: CONTRACT_B },
+    ], signer);
+
+    expect(check).toHaveBeenCalledTimes(2);
+    expect(relayer.userDecrypt.mock.calls[0][0]).toEqual([
+      { handle: UINT8, contractAddress: CONTRACT_A },
+      { handle: UINT8, contractAddress: CONTRACT_B },
+    ]);
+    expect(result).toEqual({ values: { [UINT8]: 7n }, failures: [] });
+  });
+
+  it('reports denied pairs and failed ACL calls per pair', async () => {
+    vi.spyOn(client, 'checkDecryptAccess').mockImplementation(async ([pair]) => {
+      if (pair.handle === UINT32) throw new Error('ACL call failed');
+      return [pair.handle !== BOOL];
+    });
+
+    const { values, failures } = await client.batchUserDecrypt([
+      { handle: UINT8, contractAddress: CONTRACT_A },
+      { handle: UINT32, contractAddress: CONTRACT_A },
+      { handle: BOOL, contractAddress: CONTRACT_A },
+    ], signer);
+
+    expect(values).toEqual({ [UINT8]: 7n });
+    expect(failures).toHaveLength(2);
+    expect(failures.find(failure => failure.handle === UINT32)?.error.message).toBe('ACL call failed');
+    expect(failures.find(failure => failure.handle === BOOL)?.error).toBeInstanceOf(AclDeniedError);
+  });
+
+  it('drops the decryption session when the client\'s wallet provider switches account', async () => {
+    const listeners = new Map<string, () => void>();
+    const walletProvider = {
+      request: vi.fn(),
+      on: vi.fn((event: string, listener: () => void) => listeners.set(event, listener)),
+    };
+    vi.mocked(createRelayerInstance).mockResolvedValue({
+      instance: relayer as unknown as FhevmInstance,
+      network: SEPOLIA_NETWORK,
+      aclContractAddress: SEPOLIA_NETWORK.fhevm!.aclContractAddress,
+      signer: null,
+      walletProvider,
+    });
+    const walletClient = await FhevmClient.create({ provider: walletProvider });
+    vi.spyOn(walletClient, 'checkDecryptAccess').mockImplementation(async pairs => pairs.map(() => true));
+    const createSession = vi.spyOn(walletClient, 'createDecryptionSession').mockImplementation(fakeSession);
+    const pairs = [{ handle: UINT8, contractAddress: CONTRACT_A }];
+
+    await clearDecryptionSessions();
+    await walletClient.batchUserDecrypt(pairs, signer);
+    await walletClient.batchUserDecrypt(pairs, signer);
+    expect(createSession).toHaveBeenCalledTimes(1);
+
+    listeners.get('accountsChanged')!();
+    await walletClient.batchUserDecrypt(pairs, signer);
+    expect(createSession).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,141 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ethers } from 'ethers';
+import { FhevmClient, type Handle } from '../src/core/client.js';
+
+// Local chain served by @fhevm/hardhat-plugin: relayer metadata, verifier contracts, ACL and mock relayer
+const ACL_ADDRESS = '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D';
+const INPUT_VERIFIER_ADDRESS = '0x901F8942346f7AB3a01F6D7613119Bca447Bb030';
+const KMS_VERIFIER_ADDRESS = '0x1364cBBf2cDF5032C47d8226a6f6FBD2AFCDacAC';
+const GATEWAY_CHAIN_ID = 55815;
+// Verifying contracts of the plugin's mock gateway, as passed by createMockInstance
+const DECRYPTION_ADDRESS = '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64';
+const INPUT_VERIFICATION_ADDRESS = '0x812b06e1CDCE800494b79fFE4f925A504a9A9810';
+
+const kmsSigner = new ethers.Wallet('0x' + '11'.repeat(32));
+const coprocessorSigner = new ethers.Wallet('0x' + '22'.repeat(32));
+
+const verifierInterface = new ethers.Interface([
+  'function eip712Domain() view returns (bytes1, string, string, uint256, address, bytes32, uint256[])',
+  'function getKmsSigners() view returns (address[])',
+  'function getCoprocessorSigners() view returns (address[])',
+  'function getThreshold() view returns (uint256)',
+]);
+const aclInterface = new ethers.Interface(['function isAllowedForDecryption(bytes32 handle) view returns (bool)']);
+
+const PUBLIC_DECRYPT_TYPES = {
+  PublicDecryptVerification: [
+    { name: 'ctHandles', type: 'bytes32[]' },
+    { name: 'decryptedResult', type: 'bytes' },
+    { name: 'extraData', type: 'bytes' },
+  ],
+};
+
+function makeHandle(id: number, fheType: number): Handle {
+  return `${ethers.zeroPadValue(ethers.toBeHex(id), 30)}${fheType.toString(16).padStart(2, '0')}00` as Handle;
+}
+
+const AGE = makeHandle(1, 4);
+const RARE = makeHandle(2, 0);
+
+describe('mock instance on a local Hardhat chain', () => {
+  // Clear values of handles made publicly decryptable on the fake node
+  let published: Map<string, bigint>;
+  let signatures: string[];
+
+  const verifierCall = (data: string, name: string, verifyingContract: string, signer: ethers.Wallet) => {
+    const call = verifierInterface.parseTransaction({ data })!;
+    switch (call.name) {
+      case 'eip712Domain':
+        return verifierInterface.encodeFunctionResult(call.fragment, ['0x0f', name, '1', GATEWAY_CHAIN_ID, verifyingContract, ethers.ZeroHash, []]);
+      case 'getThreshold':
+        return verifierInterface.encodeFunctionResult(call.fragment, [1]);
+      default:
+        return verifierInterface.encodeFunctionResult(call.fragment, [[signer.address]]);
+    }
+  };
+
+  const node = async (method: string, params: any[]): Promise<unknown> => {
+    switch (method) {
+      case 'eth_chainId':
+        return '0x7a69';
+      case 'fhevm_relayer_metadata':
+        return {
+          ACLAddress: ACL_ADDRESS,
+          InputVerifierAddress: INPUT_VERIFIER_ADDRESS,
+          KMSVerifierAddress: KMS_VERIFIER_ADDRESS,
+          gatewayChainId: GATEWAY_CHAIN_ID,
+        };
+      case 'eth_call': {
+        const { to, data } = params[0];
+        switch (ethers.getAddress(to)) {
+          case KMS_VERIFIER_ADDRESS:
+            return verifierCall(data, 'Decryption', DECRYPTION_ADDRESS, kmsSigner);
+          case INPUT_VERIFIER_ADDRESS:
+            return verifierCall(data, 'InputVerification', INPUT_VERIFICATION_ADDRESS, coprocessorSigner);
+          case ACL_ADDRESS: {
+            const [handle] = aclInterface.decodeFunctionData('isAllowedForDecryption', data);
+            return aclInterface.encodeFunctionResult('isAllowedForDecryption', [published.has(handle.toLowerCase())]);
+          }
+        }
+        throw new Error(`No contract at ${to}`);
+      }
+      case 'fhevm_relayer_v1_public_decrypt': {
+        const { ciphertextHandles } = params[0];
+        const decryptedResult = ethers.concat(ciphertextHandles.map((handle: string) => ethers.toBeHex(published.get(handle.toLowerCase())!, 32)));
+        const signature = await kmsSigner.signTypedData(
+          { name: 'Decryption', version: '1', chainId: GATEWAY_CHAIN_ID, verifyingContract: DECRYPTION_ADDRESS },
+          PUBLIC_DECRYPT_TYPES,
+          { ctHandles: ciphertextHandles, decryptedResult, extraData: '0x00' }
+        );
+        signatures.push(signature);
+        return { decrypted_value: decryptedResult, signatures: [signature] };
+      }
+    }
+    throw new Error(`Method ${method} not supported`);
+  };
+
+  beforeEach(() => {
+    published = new Map([[AGE, 42n], [RARE, 1n]]);
+    signatures = [];
+    vi.spyOn(ethers.JsonRpcProvider.prototype, '_send').mockImplementation(async payload => {
+      const requests = Array.isArray(payload) ? payload : [payload];
+      return Promise.all(requests.map(async ({ id, method, params }) => {
+        try {
+          return { id, result: await node(method, params as any[]) };
+        } catch (err) {
+          // ethers reads JSON-RPC errors from the same result array
+          return { id, error: { code: -32603, message: (err as Error).message } } as unknown as ethers.JsonRpcResult;
+        }
+      }));
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('creates a MockFhevmInstance for chain 31337', async () => {
+    const client = await FhevmClient.create({ chainId: 31337 });
+
+    expect(client.chainId).toBe(31337);
+    expect(client.aclContractAddress).toBe(ACL_ADDRESS);
+  });
+
+  it('publicly decrypts with a KMS-signed decryption proof', async () => {
+    const client = await FhevmClient.create({ chainId: 31337 });
+
+    const result = await client.publicDecrypt([AGE, RARE]);
+
+    expect(result.clearValues).toEqual({ [AGE]: 42n, [RARE]: true });
+    expect(result.abiEncodedClearValues).toBe(ethers.AbiCoder.defaultAbiCoder().encode(['uint32', 'bool'], [42n, true]));
+    // One signer, its signature and the signed extra data, as FHE.checkSignatures expects
+    expect(result.decryptionProof).toBe(ethers.concat(['0x01', signatures[0], '0x00']));
+  });
+
+  it('rejects handles that are not publicly decryptable', async () => {
+    const client = await FhevmClient.create({ chainId: 31337 });
+    published.delete(RARE);
+
+    await expect(client.publicDecrypt([AGE, RARE])).rejects.toThrow('is not allowed for public decryption');
+  });
+});
@@ -0,0 +1,185 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApp, defineComponent, h, nextTick } from 'vue';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+import { createRelayerInstance } from '../src/core/instance.js';
+import { SEPOLIA_NETWORK } from '../src/core/networks.js';
+import { createFhevmStore, type FhevmStore } from '../src/adapters/vanilla.js';
+import { provideFhevmStore, useEncrypt, useFhevm, useWallet } from '../src/adapters/vue.js';
+
+vi.mock('../src/core/instance.js', () => ({ createRelayerInstance: vi.fn() }));
+
+const ACCOUNT = '0x1111111111111111111111111111111111111111';
+const CONTRACT = '0x2222222222222222222222222222222222222222';
+
+type Listener = (...args: any[]) => void;
+
+function mockEthereum() {
+  const listeners = new Map<string, Listener>();
+  const ethereum = {
+    request: vi.fn(async ({ method }: { method: string }) => {
+      if (method === 'eth_requestAccounts') return [ACCOUNT];
+      if (method === 'eth_chainId') return '0xaa36a7';
+      throw new Error(`Unexpected method ${method}`);
+    }),
+    on: vi.fn((event: string, listener: Listener) => listeners.set(event, listener)),
+    removeListener: vi.fn((event: string, listener: Listener) => {
+      if (listeners.get(event) === listener) listeners.delete(event);
+    }),
+  };
+  return { ethereum, emit: (event: string, ...args: any[]) => listeners.get(event)?.(...args), listeners };
+}
+
+// Run a composable in a mounted component below provideFhevmStore(store)
+function mountWithStore<T>(store: FhevmStore, composable: () => T) {
+  let result!: T;
+  const Child = defineComponent({
+    setup() {
+      result = composable();
+      return () => null;
+    },
+  });
+  const app = createApp(defineComponent({
+    setup() {
+      provideFhevmStore(store);
+      return () => h(Child);
+    },
+  }));
+  app.mount(document.createElement('div'));
+  return { result, unmount: () => app.unmount() };
+}
+
+describe('vue useWallet', () => {
+  let provider: ReturnType<typeof mockEthereum>;
+  let store: FhevmStore;
+
+  beforeEach(() => {
+    provider = mockEthereum();
+    window.ethereum = provider.ethereum as any;
+    store = createFhevmStore();
+  });
+
+  afterEach(() => {
+    delete window.ethereum;
+  });
+
+  it('connects through the wallet provider', async () => {
+    const { result } = mountWithStore(store, useWallet);
+
+    await result.connect();
+
+    expect(result.address.value).toBe(ACCOUNT);
+    expect(result.chainId.value).toBe(11155111);
+    expect(result.isConnected.value).toBe(true);
+    expect(result.isConnecting.value).toBe(false);
+    expect(store.getSnapshot().wallet.address).toBe(ACCOUNT);
+  });
+
+  it('follows chain and account changes', async () => {
+    const { result } = mountWithStore(store, useWallet);
+    await result.connect();
+
+    provider.emit('chainChanged', '0x7a69');
+    expect(result.chainId.value).toBe(31337);
+
+    provider.emit('accountsChanged', ['0x3333333333333333333333333333333333333333']);
+    expect(result.address.value).toBe('0x3333333333333333333333333333333333333333');
+
+    provider.emit('accountsChanged', []);
+    expect(result.isConnected.value).toBe(false);
+    expect(result.address.value).toBe('');
+  });
+
+  it('shares wallet state between components using the same store', async () => {
+    const first = mountWithStore(store, useWallet);
+    const second = mountWithStore(store, useWallet);
+
+    await first.result.connect();
+
+    expect(second.result.address.value).toBe(ACCOUNT);
+  });
+
+  it('removes the provider listeners once the last component unmounts', () => {
+    const first = mountWithStore(store, useWallet);
+    const second = mountWithStore(store, useWallet);
+    expect(provider.ethereum.on).toHaveBeenCalledTimes(2);
+
+    first.unmount();
+    expect(provider.listeners.size).toBe(2);
+
+    second.unmount();
+    expect(provider.listeners.size).toBe(0);
+  });
+
+  it('reports a missing wallet provider', async () => {
+    delete window.ethereum;
+    const { result } = mountWithStore(store, useWallet);
+
+    await result.connect();
+
+    expect(result.error.value).toBe('MetaMask not found. Please install MetaMask.');
+    expect(result.isConnected.value).toBe(false);
+  });
+});
+
+describe('vue useEncrypt', () => {
+  let proofs: Array<(value: { handles: Uint8Array[]; inputProof: Uint8Array }) => void>;
+  let store: FhevmStore;
+
+  beforeEach(async () => {
+    proofs = [];
+    const relayer = {
+      createEncryptedInput: vi.fn(() => ({
+        add32: vi.fn(),
+        encrypt: () => new Promise(resolve => proofs.push(resolve)),
+      })),
+    };
+    vi.mocked(createRelayerInstance).mockResolvedValue({
+      instance: relayer as unknown as FhevmInstance,
+      network: SEPOLIA_NETWORK,
+      aclContractAddress: SEPOLIA_NETWORK.fhevm!.aclContractAddress,
+      signer: null,
+    });
+    store = createFhevmStore();
+  });
+
+  const settle = (index: number) => proofs[index]({ handles: [new Uint8Array(32).fill(index + 1)], inputProof: new Uint8Array([1]) });
+
+  it('initializes the store instance', async () => {
+    const { result } = mountWithStore(store, useFhevm);
+
+    await result.initialize();
+
+    expect(result.isInitialized.value).toBe(true);
+    expect(result.instance.value).toBe(store.getSnapshot().fhevm.instance);
+  });
+
+  it('stays encrypting until every concurrent encryption settles', async () => {
+    await store.initialize();
+    const { result } = mountWithStore(store, useEncrypt);
+
+    const first = result.encrypt(CONTRACT, ACCOUNT, 1);
+    const second = result.encrypt(CONTRACT, ACCOUNT, 2);
+    await nextTick();
+    expect(result.isEncrypting.value).toBe(true);
+
+    settle(1);
+    await second;
+    expect(result.isEncrypting.value).toBe(true);
+
+    settle(0);
+    await first;
+    expect(result.isEncrypting.value).toBe(false);
+  });
+
+  it('aborts pending encryptions on unmount without recording an error', async () => {
+    await store.initialize();
+    const { result, unmount } = mountWithStore(store, useEncrypt);
+
+    const pending = result.encrypt(CONTRACT, ACCOUNT, 1);
+    unmount();
+
+    await expect(pending).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(store.getSnapshot().encryption).toEqual({ pending: 0, error: '' });
+  });
+});
@@ -1,30 +1,121 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
-import React, { useEffect, useState } from "react";
-import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
+import React, { useEffect, useRef, useState } from "react";
+import { ethers } from "ethers";
+import { ABI, normAddr } from "./components/useContract";
+import { useRegistryRead, useRegistryWrite } from "./components/useRegistry";
+import { useWagmiDecrypt } from "../fhevm-sdk/src/adapters/wagmi";
+import type { UniversalFHEAdapter } from "../../../types/contracts/UniversalFHEAdapter";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { useFhevm, useEncrypt, useDecrypt, useRoles, registerPatient, renamePatient, resolvePseudonyms, verifyIdentityCommitment, toFhevmError, toHandle, AbortedError, AclDeniedError, ContractRevertError, UserRejectedError } from '../fhevm-sdk/src';
+
+type CaseField<T> =
+  | { visibility: "encrypted" }
+  | { visibility: "publiclyDecrypted"; value: T }
+  | { visibility: "public"; value: T };
 
 interface DiseaseCase {
   id: number;
-  name: string;
-  age: number;
+  pseudonym: string;
+  identityCommitment: string;
+  // Only known to the registering clinic, from its local lookup table
+  name?: string;
+  identityMatches?: boolean;
+  age: CaseField<number>;
+  diagnosisDelay: CaseField<number>;
+  severity: CaseField<number>;
+  sex: CaseField<string>;
+  ageBand: CaseField<string>;
+  region: CaseField<string>;
   diseaseType: string;
   symptoms: string;
   timestamp: number;
   creator: string;
-  publicValue1: number;
-  publicValue2: number;
   isVerified?: boolean;
-  decryptedValue?: number;
+  isWithdrawn?: boolean;
+}
+
+const PAGE_SIZE = 50;
+
+type RoleName = "REGISTRY_ADMIN_ROLE" | "CLINIC_ROLE" | "RESEARCHER_ROLE" | "AUDITOR_ROLE";
+
+const ROLE_LABELS: Record<RoleName, string> = {
+  REGISTRY_ADMIN_ROLE: "Registry Admin",
+  CLINIC_ROLE: "Accredited Clinic",
+  RESEARCHER_ROLE: "Researcher",
+  AUDITOR_ROLE: "Auditor"
+};
+
+const ROLE_NAMES = Object.keys(ROLE_LABELS) as RoleName[];
+
+const AGE_BANDS = ["0-17", "18-39", "40-64", "65+"];
+
+const SEX_OPTIONS = ["Female", "Male", "Other / Undisclosed"];
+
+const REGIONS = ["Asia-Pacific", "Europe", "North America", "Latin America", "Middle East & Africa"];
+
+// Only these fields may be written to the cleartext publicValue slots; everything else is sent encrypted.
+const PUBLIC_FIELD_ALLOW_LIST = {
+  publicValue1: "ageBand",
+  publicValue2: "region"
+} as const;
+
+const toAgeBandCode = (age: number) => {
+  if (age < 18) return 1;
+  if (age < 40) return 2;
+  if (age < 65) return 3;
+  return 4;
+};
+
+const decodeCode = (list: string[], code: number): CaseField<string> => 
+  ({ visibility: "public", value: list[code - 1] ?? "Unspecified" });
+
+const formatField = <T,>(field: CaseField<T>) => 
+  field.visibility === "encrypted" ? "🔒 Encrypted" : String(field.value);
+
+// Status message for a failed action; SDK errors are typed, so branch on their class
+const describeError = (e: unknown, action: string, rejectedMessage = "Transaction rejected") => {
+  const error = toFhevmError(e);
+  if (error instanceof UserRejectedError) return rejectedMessage;
+  if (error instanceof AclDeniedError) return "Access to this case has not been granted";
+  return `${action} failed: ${error.message}`;
+};
+
+interface AgeAggregates {
+  sum: number;
+  count: number;
+  min: number;
+  max: number;
+}
+
+interface CaseVersion {
+  handle: string;
+  timestamp: number;
+  editor: string;
+}
+
+// A record's encrypted fields after user decryption
+interface DecryptedFields {
+  age: number;
+  diagnosisDelay: number;
+  severity: number;
+  sex: string;
+}
+
+interface CategoryStats {
+  sum: number;
+  count: number;
 }
 
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
+  const { registry: readRegistry } = useRegistryRead();
+  const { requireRegistry } = useRegistryWrite();
   const [loading, setLoading] = useState(true);
   const [cases, setCases] = useState<DiseaseCase[]>([]);
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [totalCases, setTotalCases] = useState(0);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [creatingCase, setCreatingCase] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ 
@@ -34,8 +125,13 @@ const App: React.FC = () => {
   });
   const [newCaseData, setNewCaseData] = useState({ 
     name: "", 
+    localId: "", 
     age: "", 
     diseaseType: "", 
+    region: "", 
+    diagnosisDelay: "", 
+    severity: "", 
+    sex: "", 
     symptoms: "" 
   });
   const [selectedCase, setSelectedCase] = useState<DiseaseCase | null>(null);
@@ -44,34 +140,35 @@ const App: React.FC = () => {
   const [showFAQ, setShowFAQ] = useState(false);
   const [operationHistory, setOperationHistory] = useState<string[]>([]);
   const [contractAddress, setContractAddress] = useState("");
-  const [fhevmInitializing, setFhevmInitializing] = useState(false);
+  const [roleAccount, setRoleAccount] = useState("");
+  const [roleName, setRoleName] = useState(ROLE_NAMES[1]);
+  const [ageAggregates, setAgeAggregates] = useState<AgeAggregates | null>(null);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [selectedCategory, setSelectedCategory] = useState("");
+  const [categoryStats, setCategoryStats] = useState<CategoryStats | null>(null);
+  const [loadingCategoryStats, setLoadingCategoryStats] = useState(false);
+  const [cohortResearcher, setCohortResearcher] = useState("");
+  const [isUserDecrypting, setIsUserDecrypting] = useState(false);
 
-  const { status, initialize, isInitialized } = useFhevm();
-  const { encrypt, isEncrypting } = useEncrypt();
-  const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const { status, error: fhevmError, initialize, isInitialized } = useFhevm();
+  const { encrypt, encryptFor, isEncrypting } = useEncrypt();
+  const { verifyDecryption, publicDecrypt, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const { decrypt: userDecrypt } = useWagmiDecrypt();
+  const { roles, hasRole, refresh: refreshRoles } = useRoles(readRegistry, address || "", ROLE_NAMES);
+  const isAdmin = hasRole("REGISTRY_ADMIN_ROLE");
+  const isClinic = hasRole("CLINIC_ROLE");
+  const isAuditor = hasRole("AUDITOR_ROLE");
 
+  // <FhevmProvider> (main.tsx) initializes per chain/account; only surface its failures here
   useEffect(() => {
-    const initFhevmAfterConnection = async () => {
-      if (!isConnected) return;
-      if (isInitialized || fhevmInitializing) return;
-      
-      try {
-        setFhevmInitializing(true);
-        await initialize();
-      } catch (error) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "error", 
-          message: "FHEVM initialization failed" 
-        });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      } finally {
-        setFhevmInitializing(false);
-      }
-    };
-
-    initFhevmAfterConnection();
-  }, [isConnected, isInitialized, initialize, fhevmInitializing]);
+    if (status !== "error") return;
+    setTransactionStatus({ 
+      visible: true, 
+      status: "error", 
+      message: "FHEVM initialization failed" 
+    });
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+  }, [status]);
 
   useEffect(() => {
     const loadDataAndContract = async () => {
@@ -81,18 +178,27 @@ const App: React.FC = () => {
       }
       
       try {
-        await loadData();
-        const contract = await getContractReadOnly();
-        if (contract) setContractAddress(await contract.getAddress());
+        if (readRegistry) setContractAddress(await readRegistry.getAddress());
       } catch (error) {
-        console.error('Failed to load data:', error);
+        console.error('Failed to load contract:', error);
       } finally {
         setLoading(false);
       }
+      
+      await loadData();
     };
 
     loadDataAndContract();
-  }, [isConnected]);
+  }, [isConnected, readRegistry]);
+
+  useEffect(() => {
+    if (isConnected && isInitialized) loadAggregates();
+  }, [isConnected, isInitialized]);
+
+  useEffect(() => {
+    setCategoryStats(null);
+    if (isConnected && isInitialized && selectedCategory) loadCategoryStats(selectedCategory);
+  }, [isConnected, isInitialized, selectedCategory]);
 
   const addToHistory = (operation: string) => {
     setOperationHistory(prev => [operation, ...prev.slice(0, 9)]);
@@ -103,35 +209,91 @@ const App: React.FC = () => {
     
     setIsRefreshing(true);
     try {
-      const contract = await getContractReadOnly();
+      const contract = readRegistry;
       if (!contract) return;
       
-      const businessIds = await contract.getAllBusinessIds();
       const casesList: DiseaseCase[] = [];
+      let offset = 0;
+      let total = 0;
       
-      for (const businessId of businessIds) {
-        try {
-          const businessData = await contract.getBusinessData(businessId);
+      do {
+        const page = await contract.getBusinessIdsPage(offset, PAGE_SIZE);
+        if (offset > 0 && Number(page.total) !== total) {
+          // A withdrawal moved an id into an earlier page, so the pages read so far may miss or repeat cases
+          casesList.length = 0;
+          offset = 0;
+          total = Number(page.total);
+          continue;
+        }
+        total = Number(page.total);
+        setTotalCases(total);
+        if (page.ids.length === 0) break;
+        
+        const items = await contract.getBusinessDataBatch([...page.ids]);
+        const identities = address
+          ? await resolvePseudonyms(address, items.map(item => item.pseudonym))
+          : new Map();
+        for (const businessData of items) {
+          const identity = identities.get(businessData.pseudonym);
           casesList.push({
-            id: parseInt(businessId.replace('case-', '')) || Date.now(),
-            name: businessData.name,
-            age: Number(businessData.publicValue1) || 0,
+            id: parseInt(businessData.businessId.replace('case-', '')) || Date.now(),
+            pseudonym: businessData.pseudonym,
+            identityCommitment: businessData.identityCommitment,
+            name: identity?.name,
+            identityMatches: identity ? verifyIdentityCommitment(identity, businessData.identityCommitment) : undefined,
+            age: businessData.isVerified 
+              ? { visibility: "publiclyDecrypted", value: Number(businessData.decryptedValue) || 0 } 
+              : { visibility: "encrypted" },
+            diagnosisDelay: { visibility: "encrypted" },
+            severity: { visibility: "encrypted" },
+            sex: { visibility: "encrypted" },
+            ageBand: decodeCode(AGE_BANDS, Number(businessData.publicValue1)),
+            region: decodeCode(REGIONS, Number(businessData.publicValue2)),
             diseaseType: businessData.description,
             symptoms: `Symptoms recorded`,
             timestamp: Number(businessData.timestamp),
             creator: businessData.creator,
-            publicValue1: Number(businessData.publicValue1) || 0,
-            publicValue2: Number(businessData.publicValue2) || 0,
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0
+            isVerified: businessData.isVerified
           });
-        } catch (e) {
-          console.error('Error loading case data:', e);
         }
-      }
+        
+        setCases([...casesList]);
+        offset += page.ids.length;
+      } while (offset < total);
       
-      setCases(casesList);
+      offset = 0;
+      do {
+        const page = await contract.getWithdrawnBusinessIdsPage(offset, PAGE_SIZE);
+        total = Number(page.total);
+        if (page.ids.length === 0) break;
+        
+        const withdrawn = await contract.getBusinessDataBatch([...page.ids]);
+        for (const businessData of withdrawn) {
+          casesList.push({
+            id: parseInt(businessData.businessId.replace('case-', '')) || Date.now(),
+            pseudonym: "Withdrawn case",
+            identityCommitment: ethers.ZeroHash,
+            age: { visibility: "encrypted" },
+            diagnosisDelay: { visibility: "encrypted" },
+            severity: { visibility: "encrypted" },
+            sex: { visibility: "encrypted" },
+            ageBand: { visibility: "encrypted" },
+            region: { visibility: "encrypted" },
+            diseaseType: "",
+            symptoms: "",
+            timestamp: Number(businessData.timestamp),
+            creator: businessData.creator,
+            isWithdrawn: true
+          });
+        }
+        
+        setCases([...casesList]);
+        offset += page.ids.length;
+      } while (offset < total);
+      
+      setCategories([...(await contract.getAllCategories())]);
       addToHistory(`Data refreshed: ${casesList.length} cases loaded`);
+      if (isInitialized) await loadAggregates();
     } catch (e) {
       setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
@@ -140,11 +302,62 @@ const App: React.FC = () => {
     }
   };
 
+  const loadAggregates = async () => {
+    try {
+      const contract = readRegistry;
+      if (!contract) return;
+      
+      const aggregates = await contract.getEncryptedAggregates();
+      const handles: string[] = [aggregates.sum, aggregates.count, aggregates.min, aggregates.max];
+      if (handles.some(handle => handle === ethers.ZeroHash)) {
+        setAgeAggregates(null);
+        return;
+      }
+      
+      const { clearValues } = await publicDecrypt(handles);
+      setAgeAggregates({
+        sum: Number(clearValues[toHandle(aggregates.sum)]),
+        count: Number(clearValues[toHandle(aggregates.count)]),
+        min: Number(clearValues[toHandle(aggregates.min)]),
+        max: Number(clearValues[toHandle(aggregates.max)])
+      });
+    } catch (e) {
+      console.error('Failed to decrypt aggregates:', e);
+    }
+  };
+
+  const loadCategoryStats = async (category: string) => {
+    setLoadingCategoryStats(true);
+    try {
+      const contract = readRegistry;
+      if (!contract) return;
+      
+      const aggregate = await contract.getCategoryAggregates(category);
+      if (aggregate.sum === ethers.ZeroHash || aggregate.count === ethers.ZeroHash) {
+        setCategoryStats(null);
+        setTransactionStatus({ visible: true, status: "error", message: `Statistics for ${category} are not published yet` });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+        return;
+      }
+      
+      const { clearValues } = await publicDecrypt([aggregate.sum, aggregate.count]);
+      setCategoryStats({
+        sum: Number(clearValues[toHandle(aggregate.sum)]),
+        count: Number(clearValues[toHandle(aggregate.count)])
+      });
+      addToHistory(`Category statistics decrypted: ${category}`);
+    } catch (e) {
+      console.error('Failed to decrypt category statistics:', e);
+    } finally {
+      setLoadingCategoryStats(false);
+    }
+  };
+
   const testAvailability = async () => {
     if (!isConnected) return;
     
     try {
-      const contract = await getContractReadOnly();
+      const contract = readRegistry;
       if (!contract) return;
       
       const available = await contract.isAvailable();
@@ -166,25 +379,57 @@ const App: React.FC = () => {
       return; 
     }
     
+    // An empty field must not turn into an encrypted 0 (for age, also a public "0-17" band)
+    const ageValue = parseInt(newCaseData.age, 10);
+    const diagnosisDelayValue = parseInt(newCaseData.diagnosisDelay, 10);
+    const severityValue = parseInt(newCaseData.severity, 10);
+    const missingField = Number.isNaN(ageValue) ? "Patient age"
+      : Number.isNaN(diagnosisDelayValue) ? "Diagnosis delay"
+      : Number.isNaN(severityValue) ? "Severity score"
+      : null;
+    if (missingField) {
+      setTransactionStatus({ visible: true, status: "error", message: `${missingField} is required` });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return;
+    }
+    
     setCreatingCase(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Encrypting patient data with FHE..." });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
+      const contract = requireRegistry();
       
-      const ageValue = parseInt(newCaseData.age) || 0;
       const businessId = `case-${Date.now()}`;
+      const publicFields = {
+        ageBand: toAgeBandCode(ageValue),
+        region: REGIONS.indexOf(newCaseData.region) + 1
+      };
       
-      const encryptedResult = await encrypt(contractAddress, address, ageValue);
+      // Bit widths come from createBusinessData's externalEuintN parameters
+      const encryptedResult = await encryptFor(contractAddress, address, ABI, "createBusinessData", [
+        ageValue,
+        diagnosisDelayValue,
+        severityValue,
+        SEX_OPTIONS.indexOf(newCaseData.sex) + 1
+      ]);
+      const [ageHandle, diagnosisDelayHandle, severityHandle, sexHandle] = encryptedResult.handles;
+      
+      const { pseudonym, commitment } = await registerPatient(address, {
+        localId: newCaseData.localId,
+        name: newCaseData.name
+      });
       
       const tx = await contract.createBusinessData(
         businessId,
-        newCaseData.name,
-        encryptedResult.encryptedData,
-        encryptedResult.proof,
-        ageValue,
-        0,
+        pseudonym,
+        commitment,
+        ageHandle,
+        diagnosisDelayHandle,
+        severityHandle,
+        sexHandle,
+        encryptedResult.inputProof,
+        publicFields[PUBLIC_FIELD_ALLOW_LIST.publicValue1],
+        publicFields[PUBLIC_FIELD_ALLOW_LIST.publicValue2],
         newCaseData.diseaseType
       );
       
@@ -192,18 +437,16 @@ const App: React.FC = () => {
       await tx.wait();
       
       setTransactionStatus({ visible: true, status: "success", message: "Patient case created successfully!" });
-      addToHistory(`New case created: ${newCaseData.name}`);
+      addToHistory(`New case created: ${pseudonym}`);
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
       
       await loadData();
       setShowCreateModal(false);
-      setNewCaseData({ name: "", age: "", diseaseType: "", symptoms: "" });
-    } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
-        ? "Transaction rejected" 
-        : "Creation failed: " + (e.message || "Unknown error");
+      setNewCaseData({ name: "", localId: "", age: "", diseaseType: "", region: "", diagnosisDelay: "", severity: "", sex: "", symptoms: "" });
+    } catch (e) {
+      const errorMessage = describeError(e, "Creation");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
     } finally { 
@@ -211,15 +454,60 @@ const App: React.FC = () => {
     }
   };
 
-  const decryptData = async (businessId: string): Promise<number | null> => {
+  const decryptData = async (businessId: string, signal?: AbortSignal): Promise<DecryptedFields | null> => {
     if (!isConnected || !address) { 
       setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
     }
     
+    setIsUserDecrypting(true);
     try {
-      const contractRead = await getContractReadOnly();
+      const contractRead = readRegistry;
+      if (!contractRead) return null;
+      
+      const hasAccess = await contractRead.hasRecordAccess(businessId, address);
+      if (!hasAccess) {
+        setTransactionStatus({ visible: true, status: "error", message: "Access to this case has not been granted" });
+        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+        return null;
+      }
+      
+      // All fields in one request, so the wallet is asked for at most one signature
+      const fields = await contractRead.getEncryptedFields(businessId);
+      const handles = [fields.value, fields.diagnosisDelay, fields.severity, fields.sex];
+      const { values, failures } = await userDecrypt(handles.map(handle => ({ handle, contractAddress })), { signal });
+      if (failures.length > 0) throw failures[0].error;
+      
+      const clearValue = (handle: string) => Number(values[toHandle(handle)]);
+      addToHistory(`Data decrypted for case: ${businessId}`);
+      return {
+        age: clearValue(fields.value),
+        diagnosisDelay: clearValue(fields.diagnosisDelay),
+        severity: clearValue(fields.severity),
+        sex: SEX_OPTIONS[clearValue(fields.sex) - 1] ?? "Not recorded"
+      };
+    } catch (e) {
+      // Cancelled because the case modal was closed
+      if (toFhevmError(e) instanceof AbortedError) return null;
+      const errorMessage = describeError(e, "Decryption", "Decryption request rejected");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null;
+    } finally {
+      setIsUserDecrypting(false);
+    }
+  };
+
+  const verifyOnChain = async (businessId: string, signal?: AbortSignal): Promise<number | null> => {
+    if (!isConnected || !address) { 
+      setTransactionStatus({ visible: true, status: "error", message: "Please connect wallet first" });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return null; 
+    }
+    
+    try {
+      const contractRead = readRegistry;
       if (!contractRead) return null;
       
       const businessData = await contractRead.getBusinessData(businessId);
@@ -227,63 +515,216 @@ const App: React.FC = () => {
         const storedValue = Number(businessData.decryptedValue) || 0;
         setTransactionStatus({ visible: true, status: "success", message: "Data already verified" });
         setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
-        addToHistory(`Data verified for case: ${businessData.name}`);
+        addToHistory(`Data verified for case: ${businessData.pseudonym}`);
         return storedValue;
       }
       
-      const contractWrite = await getContractWithSigner();
-      if (!contractWrite) return null;
+      const contractWrite = requireRegistry();
       
       const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
       
+      setTransactionStatus({ visible: true, status: "pending", message: "Publishing value for public decryption..." });
+      const publishTx = await contractWrite.publishDecryption(businessId);
+      await publishTx.wait();
+      
       const result = await verifyDecryption(
         [encryptedValueHandle],
         contractAddress,
         (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
+          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof),
+        { signal }
       );
       
       setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption..." });
       
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
+      const clearValue = result.decryptionResult.clearValues[toHandle(encryptedValueHandle)];
       
       await loadData();
-      addToHistory(`Data decrypted for case: ${businessData.name}`);
+      addToHistory(`Data verified on-chain for case: ${businessData.pseudonym}`);
       
-      setTransactionStatus({ visible: true, status: "success", message: "Data decrypted successfully!" });
+      setTransactionStatus({ visible: true, status: "success", message: "Data verified on-chain!" });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
       
       return Number(clearValue);
       
-    } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
+    } catch (e) { 
+      const error = toFhevmError(e);
+      if (error instanceof AbortedError) {
+        setTransactionStatus({ visible: false, status: "pending", message: "" });
+        return null;
+      }
+      if (error instanceof ContractRevertError && error.registryReason === "Data already verified") {
         setTransactionStatus({ visible: true, status: "success", message: "Data is already verified" });
         setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
         await loadData();
         return null;
       }
       
-      setTransactionStatus({ visible: true, status: "error", message: "Decryption failed" });
+      setTransactionStatus({ visible: true, status: "error", message: describeError(error, "Verification") });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
     }
   };
 
+  const loadHistory = async (businessId: string): Promise<CaseVersion[]> => {
+    const contract = readRegistry;
+    if (!contract) return [];
+    
+    const history = await contract.getBusinessDataHistory(businessId);
+    return history.map(version => ({
+      handle: version.encryptedValue,
+      timestamp: Number(version.timestamp),
+      editor: version.editor
+    }));
+  };
+
+  const amendCase = async (businessId: string, caseItem: DiseaseCase, name: string, age: number): Promise<boolean> => {
+    if (!isConnected || !address) return false;
+    
+    setTransactionStatus({ visible: true, status: "pending", message: "Encrypting amended data with FHE..." });
+    try {
+      if (caseItem.name !== undefined && name && name !== caseItem.name) {
+        await renamePatient(address, caseItem.pseudonym, name);
+      }
+      
+      const contract = requireRegistry();
+      const encryptedResult = await encrypt(contractAddress, address, age);
+      
+      const tx = await contract.amendBusinessData(businessId, encryptedResult.encryptedData, encryptedResult.proof);
+      setTransactionStatus({ visible: true, status: "pending", message: "Storing amended version on blockchain..." });
+      await tx.wait();
+      
+      setTransactionStatus({ visible: true, status: "success", message: "Case amended successfully!" });
+      addToHistory(`Case amended: ${businessId}`);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      
+      await loadData();
+      return true;
+    } catch (e) {
+      const errorMessage = describeError(e, "Amendment");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return false;
+    }
+  };
+
+  const runAccessTransaction = async (pendingMessage: string, successMessage: string, send: (contract: UniversalFHEAdapter) => Promise<ethers.ContractTransactionResponse>) => {
+    setTransactionStatus({ visible: true, status: "pending", message: pendingMessage });
+    try {
+      const contract = requireRegistry();
+      const tx = await send(contract);
+      await tx.wait();
+      
+      setTransactionStatus({ visible: true, status: "success", message: successMessage });
+      addToHistory(successMessage);
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 2000);
+      return true;
+    } catch (e) {
+      const errorMessage = describeError(e, "Access update");
+      setTransactionStatus({ visible: true, status: "error", message: errorMessage });
+      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+      return false;
+    }
+  };
+
+  const loadGrantees = async (businessId: string): Promise<string[]> => {
+    const contract = readRegistry;
+    if (!contract) return [];
+    return [...(await contract.getRecordGrantees(businessId))];
+  };
+
+  const grantRecordAccess = (businessId: string, researcher: string) => runAccessTransaction(
+    "Granting researcher access...",
+    `Access granted to ${researcher} for ${businessId}`,
+    (contract) => contract.grantRecordAccess(businessId, researcher)
+  );
+
+  const revokeRecordAccess = (businessId: string, researcher: string) => runAccessTransaction(
+    "Revoking researcher access...",
+    `Access revoked for ${researcher} on ${businessId}`,
+    (contract) => contract.revokeRecordAccess(businessId, researcher)
+  );
+
+  const withdrawConsent = async (businessId: string): Promise<boolean> => {
+    const withdrawn = await runAccessTransaction(
+      "Withdrawing patient consent...",
+      `Consent withdrawn: ${businessId}`,
+      (contract) => contract.withdrawConsent(businessId)
+    );
+    if (withdrawn) {
+      setSelectedCase(null);
+      await loadData();
+    }
+    return withdrawn;
+  };
+
+  const updateRole = async (grant: boolean) => {
+    if (!ethers.isAddress(roleAccount) || !readRegistry) return;
+    const roleId = await readRegistry[roleName]();
+    const updated = await runAccessTransaction(
+      grant ? "Granting role..." : "Revoking role...",
+      `${ROLE_LABELS[roleName]} role ${grant ? "granted to" : "revoked from"} ${roleAccount}`,
+      (contract) => grant ? contract.grantRole(roleId, roleAccount) : contract.revokeRole(roleId, roleAccount)
+    );
+    if (updated) {
+      setRoleAccount("");
+      await refreshRoles();
+    }
+  };
+
+  const publishAggregates = async () => {
+    const published = await runAccessTransaction(
+      "Publishing statistics...",
+      "Aggregate statistics published",
+      (contract) => contract.publishAggregates()
+    );
+    if (published) await loadAggregates();
+  };
+
+  const publishCategoryAggregates = async () => {
+    if (!selectedCategory) return;
+    const category = selectedCategory;
+    const published = await runAccessTransaction(
+      "Publishing statistics...",
+      `Statistics published for ${category}`,
+      (contract) => contract.publishCategoryAggregates(category)
+    );
+    if (published) await loadCategoryStats(category);
+  };
+
+  // One transaction per PAGE_SIZE records so large cohorts stay under the block gas limit
+  const grantCohortAccess = async () => {
+    if (!selectedCategory || !ethers.isAddress(cohortResearcher) || !readRegistry || !address) return;
+    const size = Number(await readRegistry.getCohortSize(address, selectedCategory));
+    
+    let granted = true;
+    for (let offset = 0; granted && (offset === 0 || offset < size); offset += PAGE_SIZE) {
+      const end = Math.min(offset + PAGE_SIZE, size);
+      granted = await runAccessTransaction(
+        size > PAGE_SIZE ? `Granting cohort access (records ${offset + 1}-${end} of ${size})...` : "Granting cohort access...",
+        `Cohort access granted to ${cohortResearcher} for ${selectedCategory}` + (size > PAGE_SIZE ? ` (records ${offset + 1}-${end})` : ""),
+        (contract) => contract.grantCohortAccess(selectedCategory, cohortResearcher, offset, PAGE_SIZE)
+      );
+    }
+    if (granted) setCohortResearcher("");
+  };
+
   const filteredCases = cases.filter(caseItem => {
-    const matchesSearch = caseItem.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    const matchesSearch = (caseItem.name ?? caseItem.pseudonym).toLowerCase().includes(searchTerm.toLowerCase()) ||
                          caseItem.diseaseType.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesFilter = filterType === "all" || 
                          (filterType === "verified" && caseItem.isVerified) ||
-                         (filterType === "unverified" && !caseItem.isVerified);
+                         (filterType === "unverified" && !caseItem.isVerified && !caseItem.isWithdrawn) ||
+                         (filterType === "withdrawn" && caseItem.isWithdrawn);
     return matchesSearch && matchesFilter;
   });
 
   const stats = {
-    total: cases.length,
+    total: cases.filter(c => !c.isWithdrawn).length,
     verified: cases.filter(c => c.isVerified).length,
-    avgAge: cases.length > 0 ? cases.reduce((sum, c) => sum + c.age, 0) / cases.length : 0,
+    avgAge: ageAggregates && ageAggregates.count > 0 ? ageAggregates.sum / ageAggregates.count : null,
     recent: cases.filter(c => Date.now()/1000 - c.timestamp < 60 * 60 * 24 * 7).length
   };
 
@@ -325,7 +766,17 @@ const App: React.FC = () => {
     );
   }
 
-  if (!isInitialized || fhevmInitializing) {
+  if (status === "error") {
+    return (
+      <div className="loading-screen">
+        <p>FHE Encryption System failed to initialize</p>
+        <p className="loading-note">{fhevmError}</p>
+        <button className="refresh-btn" onClick={initialize}>Retry</button>
+      </div>
+    );
+  }
+
+  if (!isInitialized) {
     return (
       <div className="loading-screen">
         <div className="fhe-spinner"></div>
@@ -354,18 +805,59 @@ const App: React.FC = () => {
           <button onClick={testAvailability} className="test-btn">
             Check FHE System
           </button>
-          <button onClick={() => setShowCreateModal(true)} className="create-btn">
-            + New Case
-          </button>
+          {isClinic && (
+            <button onClick={() => setShowCreateModal(true)} className="create-btn">
+              + New Case
+            </button>
+          )}
+          <div className="role-badges">
+            {ROLE_NAMES.filter(name => roles[name]).map(name => (
+              <span key={name} className="role-badge">{ROLE_LABELS[name]}</span>
+            ))}
+          </div>
           <ConnectButton accountStatus="address" chainStatus="icon" showBalance={false}/>
         </div>
       </header>
       
       <div className="main-content">
+        {isAdmin && (
+          <div className="admin-section">
+            <h3>Role Management</h3>
+            <div className="admin-controls">
+              <input 
+                type="text" 
+                placeholder="Account address (0x...)" 
+                value={roleAccount}
+                onChange={(e) => setRoleAccount(e.target.value)}
+                className="search-input"
+              />
+              <select value={roleName} onChange={(e) => setRoleName(e.target.value as RoleName)} className="filter-select">
+                {ROLE_NAMES.map(name => (
+                  <option key={name} value={name}>{ROLE_LABELS[name]}</option>
+                ))}
+              </select>
+              <button onClick={() => updateRole(true)} disabled={!ethers.isAddress(roleAccount)} className="refresh-btn">
+                Grant
+              </button>
+              <button onClick={() => updateRole(false)} disabled={!ethers.isAddress(roleAccount)} className="refresh-btn">
+                Revoke
+              </button>
+            </div>
+            <div className="admin-controls">
+              <button onClick={publishAggregates} className="refresh-btn">
+                Publish Statistics
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="stats-grid">
           <div className="stat-card">
             <h3>Total Cases</h3>
-            <div className="stat-value">{stats.total}</div>
+            <div className="stat-value">{totalCases}</div>
+            {stats.total < totalCases && (
+              <div className="stat-trend">Loaded {stats.total} of {totalCases}</div>
+            )}
             <div className="stat-trend">+{stats.recent} this week</div>
           </div>
           
@@ -377,9 +869,73 @@ const App: React.FC = () => {
           
           <div className="stat-card">
             <h3>Avg Age</h3>
-            <div className="stat-value">{stats.avgAge.toFixed(1)}</div>
-            <div className="stat-trend">Encrypted Analysis</div>
+            <div className="stat-value">{stats.avgAge !== null ? stats.avgAge.toFixed(1) : "🔒"}</div>
+            <div className="stat-trend">
+              {ageAggregates ? `Range ${ageAggregates.min}–${ageAggregates.max}` : "Encrypted Analysis"}
+            </div>
+          </div>
+        </div>
+
+        <div className="category-stats-section">
+          <h3>Per-disease statistics</h3>
+          <div className="category-stats-controls">
+            <select 
+              value={selectedCategory} 
+              onChange={(e) => setSelectedCategory(e.target.value)}
+              className="filter-select"
+            >
+              <option value="">Select disease type</option>
+              {categories.map(category => (
+                <option key={category} value={category}>{category}</option>
+              ))}
+            </select>
+            {selectedCategory && (
+              <button 
+                onClick={() => loadCategoryStats(selectedCategory)} 
+                disabled={loadingCategoryStats} 
+                className="refresh-btn"
+              >
+                {loadingCategoryStats ? "Decrypting..." : "Decrypt Aggregates"}
+              </button>
+            )}
+            {selectedCategory && isAdmin && (
+              <button onClick={publishCategoryAggregates} className="refresh-btn">
+                Publish Statistics
+              </button>
+            )}
           </div>
+          {selectedCategory && isClinic && (
+            <div className="category-stats-controls">
+              <input 
+                type="text" 
+                placeholder="Researcher address (0x...)" 
+                value={cohortResearcher}
+                onChange={(e) => setCohortResearcher(e.target.value)}
+                className="search-input"
+              />
+              <button 
+                onClick={grantCohortAccess} 
+                disabled={!ethers.isAddress(cohortResearcher)} 
+                className="refresh-btn"
+              >
+                Grant Cohort Access
+              </button>
+            </div>
+          )}
+          {categoryStats && (
+            <div className="category-stats-values">
+              <div className="data-row">
+                <div className="data-label">Cases:</div>
+                <div className="data-value">{categoryStats.count}</div>
+              </div>
+              <div className="data-row">
+                <div className="data-label">Avg Age:</div>
+                <div className="data-value">
+                  {categoryStats.count > 0 ? (categoryStats.sum / categoryStats.count).toFixed(1) : "-"}
+                </div>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="controls-section">
@@ -399,9 +955,10 @@ const App: React.FC = () => {
               <option value="all">All Cases</option>
               <option value="verified">Verified Only</option>
               <option value="unverified">Unverified</option>
+              <option value="withdrawn">Withdrawn</option>
             </select>
             <button onClick={loadData} disabled={isRefreshing} className="refresh-btn">
-              {isRefreshing ? "Refreshing..." : "Refresh"}
+              {isRefreshing ? `Loading ${cases.length}/${totalCases}...` : "Refresh"}
             </button>
           </div>
           
@@ -421,7 +978,7 @@ const App: React.FC = () => {
             </div>
             <div className="faq-item">
               <strong>What data is encrypted?</strong>
-              <p>Only sensitive numerical data (age) is encrypted. Disease type is stored publicly for research purposes.</p>
+              <p>Sensitive numerical data (age) is only ever sent encrypted. Disease type, a coarse age band and the registration region are stored publicly for research purposes.</p>
             </div>
             <div className="faq-item">
               <strong>How does FHE work?</strong>
@@ -434,25 +991,40 @@ const App: React.FC = () => {
           {filteredCases.length === 0 ? (
             <div className="no-cases">
               <p>No cases found</p>
-              <button onClick={() => setShowCreateModal(true)} className="create-btn">
-                Register First Case
-              </button>
+              {isClinic && (
+                <button onClick={() => setShowCreateModal(true)} className="create-btn">
+                  Register First Case
+                </button>
+              )}
+            </div>
+          ) : filteredCases.map((caseItem, index) => caseItem.isWithdrawn ? (
+            <div className="case-card withdrawn" key={index}>
+              <div className="case-header">
+                <h4>{caseItem.name ?? caseItem.pseudonym}</h4>
+                <span className="status withdrawn">🚫 Withdrawn</span>
+              </div>
+              <div className="case-details">
+                <p>Patient consent was withdrawn. This record has been redacted and is excluded from statistics.</p>
+                <p><strong>Registered:</strong> {new Date(caseItem.timestamp * 1000).toLocaleDateString()}</p>
+              </div>
             </div>
-          ) : filteredCases.map((caseItem, index) => (
+          ) : (
             <div 
               className={`case-card ${caseItem.isVerified ? "verified" : ""}`} 
               key={index}
               onClick={() => setSelectedCase(caseItem)}
             >
               <div className="case-header">
-                <h4>{caseItem.name}</h4>
+                <h4>{caseItem.name ?? caseItem.pseudonym}</h4>
                 <span className={`status ${caseItem.isVerified ? "verified" : "pending"}`}>
                   {caseItem.isVerified ? "✅ Verified" : "🔒 Encrypted"}
                 </span>
               </div>
               <div className="case-details">
                 <p><strong>Disease:</strong> {caseItem.diseaseType}</p>
-                <p><strong>Age:</strong> {caseItem.isVerified ? caseItem.decryptedValue : "🔒 Encrypted"}</p>
+                <p><strong>Age:</strong> {formatField(caseItem.age)}</p>
+                <p><strong>Age Band:</strong> {formatField(caseItem.ageBand)}</p>
+                <p><strong>Region:</strong> {formatField(caseItem.region)}</p>
                 <p><strong>Registered:</strong> {new Date(caseItem.timestamp * 1000).toLocaleDateString()}</p>
               </div>
               <button 
@@ -495,8 +1067,17 @@ const App: React.FC = () => {
         <CaseDetailModal 
           case={selectedCase} 
           onClose={() => setSelectedCase(null)} 
-          decryptData={() => decryptData(`case-${selectedCase.id}`)}
-          isDecrypting={fheIsDecrypting}
+          decryptData={(signal) => decryptData(`case-${selectedCase.id}`, signal)}
+          verifyOnChain={(signal) => verifyOnChain(`case-${selectedCase.id}`, signal)}
+          isDecrypting={isUserDecrypting || fheIsDecrypting}
+          isCreator={normAddr(selectedCase.creator) === normAddr(address || "")}
+          canVerify={isAuditor || normAddr(selectedCase.creator) === normAddr(address || "")}
+          loadHistory={() => loadHistory(`case-${selectedCase.id}`)}
+          amendCase={(name, age) => amendCase(`case-${selectedCase.id}`, selectedCase, name, age)}
+          loadGrantees={() => loadGrantees(`case-${selectedCase.id}`)}
+          grantAccess={(researcher) => grantRecordAccess(`case-${selectedCase.id}`, researcher)}
+          revokeAccess={(researcher) => revokeRecordAccess(`case-${selectedCase.id}`, researcher)}
+          withdrawConsent={() => withdrawConsent(`case-${selectedCase.id}`)}
         />
       )}
       
@@ -526,7 +1107,7 @@ const ModalCreateCase: React.FC<{
 }> = ({ onSubmit, onClose, creating, caseData, setCaseData, isEncrypting }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
-    if (name === 'age') {
+    if (name === 'age' || name === 'diagnosisDelay' || name === 'severity') {
       const intValue = value.replace(/[^\d]/g, '');
       setCaseData({ ...caseData, [name]: intValue });
     } else {
@@ -549,13 +1130,24 @@ const ModalCreateCase: React.FC<{
           </div>
           
           <div className="form-group">
-            <label>Patient Name *</label>
+            <label>Local Patient ID *</label>
+            <input 
+              type="text" 
+              name="localId" 
+              value={caseData.localId} 
+              onChange={handleChange} 
+              placeholder="Clinic record number (stays on this device)..." 
+            />
+          </div>
+          
+          <div className="form-group">
+            <label>Patient Name</label>
             <input 
               type="text" 
               name="name" 
               value={caseData.name} 
               onChange={handleChange} 
-              placeholder="Enter patient name..." 
+              placeholder="Enter patient name (stays on this device)..." 
             />
           </div>
           
@@ -570,7 +1162,46 @@ const ModalCreateCase: React.FC<{
               min="0"
               max="120"
             />
-            <div className="data-type-label">FHE Encrypted Integer</div>
+            <div className="data-type-label">FHE Encrypted Integer · only the coarse age band is public</div>
+          </div>
+          
+          <div className="form-group">
+            <label>Diagnosis Delay in Months (Encrypted) *</label>
+            <input 
+              type="number" 
+              name="diagnosisDelay" 
+              value={caseData.diagnosisDelay} 
+              onChange={handleChange} 
+              placeholder="Months from onset to diagnosis..." 
+              min="0"
+              max="65535"
+            />
+            <div className="data-type-label">FHE Encrypted 16-bit Integer</div>
+          </div>
+          
+          <div className="form-group">
+            <label>Severity Score (Encrypted) *</label>
+            <input 
+              type="number" 
+              name="severity" 
+              value={caseData.severity} 
+              onChange={handleChange} 
+              placeholder="0-10" 
+              min="0"
+              max="10"
+            />
+            <div className="data-type-label">FHE Encrypted 8-bit Integer</div>
+          </div>
+          
+          <div className="form-group">
+            <label>Sex (Encrypted)</label>
+            <select name="sex" value={caseData.sex} onChange={handleChange}>
+              <option value="">Not recorded</option>
+              {SEX_OPTIONS.map(option => (
+                <option key={option} value={option}>{option}</option>
+              ))}
+            </select>
+            <div className="data-type-label">FHE Encrypted 8-bit Code</div>
           </div>
           
           <div className="form-group">
@@ -584,13 +1215,24 @@ const ModalCreateCase: React.FC<{
             </select>
             <div className="data-type-label">Public Research Data</div>
           </div>
+          
+          <div className="form-group">
+            <label>Registration Region *</label>
+            <select name="region" value={caseData.region} onChange={handleChange}>
+              <option value="">Select region</option>
+              {REGIONS.map(region => (
+                <option key={region} value={region}>{region}</option>
+              ))}
+            </select>
+            <div className="data-type-label">Public Research Data</div>
+          </div>
         </div>
         
         <div className="modal-footer">
           <button onClick={onClose} className="cancel-btn">Cancel</button>
           <button 
             onClick={onSubmit} 
-            disabled={creating || isEncrypting || !caseData.name || !caseData.age || !caseData.diseaseType} 
+            disabled={creating || isEncrypting || !caseData.localId || !caseData.age || !caseData.diagnosisDelay || !caseData.severity || !caseData.diseaseType || !caseData.region} 
             className="submit-btn"
           >
             {creating || isEncrypting ? "Encrypting and Registering..." : "Register Case"}
@@ -602,22 +1244,95 @@ const ModalCreateCase: React.FC<{
 };
 
 const CaseDetailModal: React.FC<{
-  case: any;
+  case: DiseaseCase;
   onClose: () => void;
   isDecrypting: boolean;
-  decryptData: () => Promise<number | null>;
-}> = ({ case: caseItem, onClose, isDecrypting, decryptData }) => {
-  const [localDecrypted, setLocalDecrypted] = useState<number | null>(null);
+  decryptData: (signal: AbortSignal) => Promise<DecryptedFields | null>;
+  verifyOnChain: (signal: AbortSignal) => Promise<number | null>;
+  isCreator: boolean;
+  canVerify: boolean;
+  loadHistory: () => Promise<CaseVersion[]>;
+  amendCase: (name: string, age: number) => Promise<boolean>;
+  loadGrantees: () => Promise<string[]>;
+  grantAccess: (researcher: string) => Promise<boolean>;
+  revokeAccess: (researcher: string) => Promise<boolean>;
+  withdrawConsent: () => Promise<boolean>;
+}> = ({ case: caseItem, onClose, isDecrypting, decryptData, verifyOnChain, isCreator, canVerify, loadHistory, amendCase, loadGrantees, grantAccess, revokeAccess, withdrawConsent }) => {
+  const [localDecrypted, setLocalDecrypted] = useState<DecryptedFields | null>(null);
+  const [grantees, setGrantees] = useState<string[]>([]);
+  const [researcher, setResearcher] = useState("");
+  const [versions, setVersions] = useState<CaseVersion[]>([]);
+  const [amendName, setAmendName] = useState(caseItem.name ?? "");
+  const [amendAge, setAmendAge] = useState("");
+  
+  // Aborted when the modal closes, so pending requests are cancelled and never update its state
+  const requests = useRef(new AbortController());
+  useEffect(() => {
+    const controller = new AbortController();
+    requests.current = controller;
+    return () => controller.abort();
+  }, []);
+  const isOpen = () => !requests.current.signal.aborted;
+
+  useEffect(() => {
+    loadHistory()
+      .then(history => isOpen() && setVersions(history))
+      .catch(() => isOpen() && setVersions([]));
+  }, [caseItem.id]);
+
+  const handleAmend = async () => {
+    const age = parseInt(amendAge, 10);
+    if (Number.isNaN(age)) return;
+    if (await amendCase(amendName, age)) {
+      const history = await loadHistory();
+      if (!isOpen()) return;
+      setAmendAge("");
+      setLocalDecrypted(null);
+      setVersions(history);
+    }
+  };
+
+  useEffect(() => {
+    if (isCreator) {
+      loadGrantees()
+        .then(list => isOpen() && setGrantees(list))
+        .catch(() => isOpen() && setGrantees([]));
+    }
+  }, [isCreator, caseItem.id]);
+
+  const handleGrant = async () => {
+    if (await grantAccess(researcher)) {
+      const list = await loadGrantees();
+      if (!isOpen()) return;
+      setResearcher("");
+      setGrantees(list);
+    }
+  };
+
+  const handleRevoke = async (grantee: string) => {
+    if (await revokeAccess(grantee)) {
+      const list = await loadGrantees();
+      if (isOpen()) setGrantees(list);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (window.confirm("Withdraw patient consent? The record will be redacted and removed from all statistics. This cannot be undone.")) {
+      await withdrawConsent();
+    }
+  };
 
   const handleDecrypt = async () => {
-    if (caseItem.isVerified) return;
+    if (caseItem.isWithdrawn) return;
     
-    const decrypted = await decryptData();
-    if (decrypted !== null) {
+    const decrypted = await decryptData(requests.current.signal);
+    if (decrypted !== null && isOpen()) {
       setLocalDecrypted(decrypted);
     }
   };
 
+  const handleVerify = () => verifyOnChain(requests.current.signal);
+
   return (
     <div className="modal-overlay">
       <div className="case-detail-modal">
@@ -628,14 +1343,33 @@ const CaseDetailModal: React.FC<{
         
         <div className="modal-body">
           <div className="case-info">
+            <div className="info-row">
+              <span>Pseudonym:</span>
+              <strong>{caseItem.pseudonym}</strong>
+            </div>
             <div className="info-row">
               <span>Patient Name:</span>
-              <strong>{caseItem.name}</strong>
+              <strong>{caseItem.name ?? "Not held on this device"}</strong>
+            </div>
+            <div className="info-row">
+              <span>Identity Commitment:</span>
+              <strong>
+                {caseItem.identityCommitment.substring(0, 10)}...
+                {caseItem.identityMatches !== undefined && (caseItem.identityMatches ? " ✅ matches local record" : " ⚠️ does not match local record")}
+              </strong>
             </div>
             <div className="info-row">
               <span>Disease Type:</span>
               <strong>{caseItem.diseaseType}</strong>
             </div>
+            <div className="info-row">
+              <span>Age Band:</span>
+              <strong>{formatField(caseItem.ageBand)}</strong>
+            </div>
+            <div className="info-row">
+              <span>Region:</span>
+              <strong>{formatField(caseItem.region)}</strong>
+            </div>
             <div className="info-row">
               <span>Registration Date:</span>
               <strong>{new Date(caseItem.timestamp * 1000).toLocaleDateString()}</strong>
@@ -651,34 +1385,122 @@ const CaseDetailModal: React.FC<{
             <div className="data-row">
               <div className="data-label">Age Data:</div>
               <div className="data-value">
-                {caseItem.isVerified ? 
-                  `${caseItem.decryptedValue} (On-chain Verified)` : 
+                {caseItem.age.visibility === "publiclyDecrypted" ? 
+                  `${caseItem.age.value} (On-chain Verified)` : 
                   localDecrypted !== null ? 
-                  `${localDecrypted} (Locally Decrypted)` : 
+                  `${localDecrypted.age} (Locally Decrypted)` : 
                   "🔒 FHE Encrypted"
                 }
               </div>
-              {!caseItem.isVerified && (
+              {!caseItem.isWithdrawn && (
                 <button 
                   className={`decrypt-btn ${localDecrypted !== null ? 'decrypted' : ''}`}
                   onClick={handleDecrypt} 
                   disabled={isDecrypting}
                 >
-                  {isDecrypting ? "Decrypting..." : "Decrypt Age"}
+                  {isDecrypting ? "Decrypting..." : "Decrypt Record"}
                 </button>
               )}
             </div>
             
+            <div className="data-row">
+              <div className="data-label">Diagnosis Delay:</div>
+              <div className="data-value">
+                {localDecrypted !== null ? `${localDecrypted.diagnosisDelay} months (Locally Decrypted)` : formatField(caseItem.diagnosisDelay)}
+              </div>
+            </div>
+            <div className="data-row">
+              <div className="data-label">Severity Score:</div>
+              <div className="data-value">
+                {localDecrypted !== null ? `${localDecrypted.severity} (Locally Decrypted)` : formatField(caseItem.severity)}
+              </div>
+            </div>
+            <div className="data-row">
+              <div className="data-label">Sex:</div>
+              <div className="data-value">
+                {localDecrypted !== null ? `${localDecrypted.sex} (Locally Decrypted)` : formatField(caseItem.sex)}
+              </div>
+            </div>
+            
+            <div className="access-section">
+              <h3>Version History</h3>
+              <div className="version-timeline">
+                {versions.map((version, index) => (
+                  <div className="version-item" key={version.handle + index}>
+                    <strong>v{index + 1}{index === versions.length - 1 ? " (current)" : ""}</strong>
+                    <span>{new Date(version.timestamp * 1000).toLocaleString()}</span>
+                    <span>by {version.editor.substring(0, 6)}...{version.editor.substring(38)}</span>
+                    <span className="version-handle">{version.handle.substring(0, 10)}...</span>
+                  </div>
+                ))}
+              </div>
+              {isCreator && (
+                <div className="access-grant">
+                  {caseItem.name !== undefined && (
+                    <input 
+                      type="text" 
+                      value={amendName} 
+                      onChange={(e) => setAmendName(e.target.value)} 
+                      placeholder="Corrected patient name (local only)" 
+                    />
+                  )}
+                  <input 
+                    type="number" 
+                    value={amendAge} 
+                    onChange={(e) => setAmendAge(e.target.value.replace(/[^\d]/g, ''))} 
+                    placeholder="Updated age" 
+                    min="0"
+                    max="120"
+                  />
+                  <button className="decrypt-btn" onClick={handleAmend} disabled={!amendAge}>
+                    Amend Case
+                  </button>
+                </div>
+              )}
+            </div>
+            
+            {isCreator && (
+              <div className="access-section">
+                <h3>Researcher Access</h3>
+                {grantees.length === 0 ? (
+                  <p className="access-empty">No researchers have been granted access</p>
+                ) : grantees.map(grantee => (
+                  <div className="data-row" key={grantee}>
+                    <div className="data-value">{grantee.substring(0, 6)}...{grantee.substring(38)}</div>
+                    <button className="decrypt-btn" onClick={() => handleRevoke(grantee)}>Revoke</button>
+                  </div>
+                ))}
+                <div className="access-grant">
+                  <input 
+                    type="text" 
+                    value={researcher} 
+                    onChange={(e) => setResearcher(e.target.value)} 
+                    placeholder="Researcher address (0x...)" 
+                  />
+                  <button className="decrypt-btn" onClick={handleGrant} disabled={!ethers.isAddress(researcher)}>
+                    Grant Access
+                  </button>
+                </div>
+              </div>
+            )}
+            
             <div className="fhe-explanation">
-              <p>Age data is encrypted using Fully Homomorphic Encryption (FHE), allowing statistical analysis while protecting individual privacy.</p>
+              <p>Age, diagnosis delay, severity and sex are encrypted using Fully Homomorphic Encryption (FHE), allowing statistical analysis while protecting individual privacy.</p>
             </div>
           </div>
         </div>
         
         <div className="modal-footer">
           <button onClick={onClose} className="close-btn">Close</button>
-          {!caseItem.isVerified && localDecrypted !== null && (
-            <button className="verified-btn">Data Available for Research</button>
+          {isCreator && (
+            <button className="withdraw-btn" onClick={handleWithdraw} disabled={isDecrypting}>
+              Withdraw Consent
+            </button>
+          )}
+          {canVerify && caseItem.age.visibility === "encrypted" && (
+            <button className="verify-btn" onClick={handleVerify} disabled={isDecrypting}>
+              Publish & Verify On-chain
+            </button>
           )}
         </div>
       </div>
@@ -0,0 +1,49 @@
+// useRegistry.ts
+import { useCallback, useMemo } from "react";
+import { useAccount } from "wagmi";
+import { ChainMismatchError } from "../../fhevm-sdk/src";
+import { useWagmiProvider, useWagmiSigner } from "../../fhevm-sdk/src/adapters/wagmi";
+import type { UniversalFHEAdapter } from "../../../../types/contracts/UniversalFHEAdapter";
+import { UniversalFHEAdapter__factory } from "../../../../types/factories/contracts/UniversalFHEAdapter__factory";
+import { getRegistryNetwork, requireSigner } from "./useContract";
+
+/**
+ * Typed registry for views, read through wagmi's public client on the active network
+ */
+export function useRegistryRead() {
+  const { chainId } = useAccount();
+  const network = getRegistryNetwork(chainId);
+  const provider = useWagmiProvider({ chainId: network.chainId });
+
+  const registry = useMemo<UniversalFHEAdapter | null>(
+    () => (provider ? UniversalFHEAdapter__factory.connect(network.registryAddress!, provider) : null),
+    [provider, network.registryAddress]
+  );
+
+  return { registry, network };
+}
+
+/**
+ * Typed registry for transactions, signed by the active wagmi connector
+ */
+export function useRegistryWrite() {
+  const { chainId } = useAccount();
+  const network = getRegistryNetwork(chainId);
+  const signer = useWagmiSigner();
+
+  const registry = useMemo<UniversalFHEAdapter | null>(
+    () => (signer ? UniversalFHEAdapter__factory.connect(network.registryAddress!, signer) : null),
+    [signer, network.registryAddress]
+  );
+
+  // Throws instead of returning null, so callers can report why the write is not possible
+  const requireRegistry = useCallback((): UniversalFHEAdapter => {
+    requireSigner(signer);
+    if (chainId !== network.chainId) {
+      throw new ChainMismatchError(network.chainId, chainId ?? 0, network.name);
+    }
+    return registry!;
+  }, [signer, chainId, network, registry]);
+
+  return { registry, signer, requireRegistry };
+}
@@ -2,18 +2,44 @@ import React, { useEffect, useState } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
 import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/rainbowkit';
-import { WagmiConfig } from 'wagmi';
+import { WagmiConfig, useAccount } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
+import type { Chain } from 'viem';
 import { BrowserRouter } from 'react-router-dom';
+import type { Eip1193Provider } from 'ethers';
+import { FhevmProvider, getNetworks, type FhevmNetwork } from '../fhevm-sdk/src';
+import { APP_NETWORK } from './components/useContract';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
+const WAGMI_CHAINS: Record<number, Chain> = {
+  [sepolia.id]: sepolia,
+  [hardhat.id]: hardhat,
+};
+
+const toWagmiChain = (network: FhevmNetwork): Chain => ({
+  ...(WAGMI_CHAINS[network.chainId] ?? {
+    id: network.chainId,
+    name: network.name,
+    nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+  }),
+  rpcUrls: { default: { http: network.rpcUrls } },
+});
+
+// Only chains the registry is deployed to; the build-time network comes first
+const chains: [Chain, ...Chain[]] = [
+  toWagmiChain(APP_NETWORK),
+  ...getNetworks()
+    .filter(network => network.registryAddress && network.chainId !== APP_NETWORK.chainId)
+    .map(toWagmiChain),
+];
+
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains,
 });
 
 const queryClient = new QueryClient();
@@ -116,15 +142,42 @@ const AdaptiveThemeProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   );
 };
 
+// The FHEVM instance follows the account, chain and wallet of whichever wagmi connector is active
+const WagmiFhevmProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { address, chainId, connector } = useAccount();
+  const [provider, setProvider] = useState<Eip1193Provider>();
+
+  useEffect(() => {
+    let active = true;
+    setProvider(undefined);
+    connector?.getProvider()
+      .then(connectorProvider => {
+        if (active) setProvider(connectorProvider as Eip1193Provider);
+      })
+      .catch(err => console.error('❌ Wallet provider unavailable:', err));
+    return () => {
+      active = false;
+    };
+  }, [connector]);
+
+  return (
+    <FhevmProvider config={{ account: provider ? address : null, chainId, provider }}>
+      {children}
+    </FhevmProvider>
+  );
+};
+
 createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
     <QueryClientProvider client={queryClient}>
       <WagmiConfig config={config}>
-        <BrowserRouter>
-          <AdaptiveThemeProvider>
-            <App />
-          </AdaptiveThemeProvider>
-        </BrowserRouter>
+        <WagmiFhevmProvider>
+          <BrowserRouter>
+            <AdaptiveThemeProvider>
+              <App />
+            </AdaptiveThemeProvider>
+          </BrowserRouter>
+        </WagmiFhevmProvider>
       </WagmiConfig>
     </QueryClientProvider>
   </React.StrictMode>
@@ -1,8 +1,18 @@
-import { defineConfig } from "vite";
+import { defineConfig, searchForWorkspaceRoot } from "vite";
 import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  // Typechain bindings live in the Hardhat project's types/ and the SDK has its own node_modules;
+  // both must use this app's ethers and React (tsconfig.json maps the same packages for type-checking)
+  resolve: {
+    dedupe: ["ethers", "react"]
+  },
+  server: {
+    fs: {
+      allow: [searchForWorkspaceRoot(process.cwd()), "../../types"]
+    }
+  },
   define: {
     'process.env': process.env
   },
@@ -0,0 +1,535 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { FhevmType, type FhevmTypeEuint } from "@fhevm/hardhat-plugin";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { UniversalFHEAdapter, UniversalFHEAdapter__factory } from "../types";
+
+type Signers = {
+  admin: HardhatEthersSigner;
+  clinic: HardhatEthersSigner;
+  otherClinic: HardhatEthersSigner;
+  researcher: HardhatEthersSigner;
+  auditor: HardhatEthersSigner;
+  outsider: HardhatEthersSigner;
+};
+
+type RecordFields = {
+  value: number;
+  diagnosisDelay?: number;
+  severity?: number;
+  sex?: number;
+  category?: string;
+};
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("UniversalFHEAdapter")) as UniversalFHEAdapter__factory;
+  const registry = (await factory.deploy()) as UniversalFHEAdapter;
+  const registryAddress = await registry.getAddress();
+
+  return { registry, registryAddress };
+}
+
+describe("UniversalFHEAdapter", function () {
+  let signers: Signers;
+  let registry: UniversalFHEAdapter;
+  let registryAddress: string;
+  let CLINIC_ROLE: string;
+  let RESEARCHER_ROLE: string;
+  let AUDITOR_ROLE: string;
+  let REGISTRY_ADMIN_ROLE: string;
+
+  const commitment = (businessId: string) => ethers.keccak256(ethers.toUtf8Bytes(`commitment:${businessId}`));
+
+  async function encryptRecord(clinic: HardhatEthersSigner, fields: RecordFields) {
+    return fhevm
+      .createEncryptedInput(registryAddress, clinic.address)
+      .add32(fields.value)
+      .add16(fields.diagnosisDelay ?? 12)
+      .add8(fields.severity ?? 3)
+      .add8(fields.sex ?? 1)
+      .encrypt();
+  }
+
+  async function createRecord(clinic: HardhatEthersSigner, businessId: string, fields: RecordFields) {
+    const encrypted = await encryptRecord(clinic, fields);
+    const tx = await registry
+      .connect(clinic)
+      .createBusinessData(
+        businessId,
+        `pseudonym:${businessId}`,
+        commitment(businessId),
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.handles[3],
+        encrypted.inputProof,
+        0,
+        0,
+        fields.category ?? "ORPHA:558",
+      );
+    await tx.wait();
+  }
+
+  async function amendRecord(clinic: HardhatEthersSigner, businessId: string, value: number) {
+    const encrypted = await fhevm.createEncryptedInput(registryAddress, clinic.address).add32(value).encrypt();
+    const tx = await registry.connect(clinic).amendBusinessData(businessId, encrypted.handles[0], encrypted.inputProof);
+    await tx.wait();
+  }
+
+  async function decryptValue(businessId: string, user: HardhatEthersSigner) {
+    const handle = await registry.getEncryptedValue(businessId);
+    return fhevm.userDecryptEuint(FhevmType.euint32, handle, registryAddress, user);
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      admin: ethSigners[0],
+      clinic: ethSigners[1],
+      otherClinic: ethSigners[2],
+      researcher: ethSigners[3],
+      auditor: ethSigners[4],
+      outsider: ethSigners[5],
+    };
+  });
+
+  beforeEach(async function () {
+    // Check whether the tests are running against an FHEVM mock environment
+    if (!fhevm.isMock) {
+      console.warn(`This hardhat test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ registry, registryAddress } = await deployFixture());
+    [CLINIC_ROLE, RESEARCHER_ROLE, AUDITOR_ROLE, REGISTRY_ADMIN_ROLE] = await Promise.all([
+      registry.CLINIC_ROLE(),
+      registry.RESEARCHER_ROLE(),
+      registry.AUDITOR_ROLE(),
+      registry.REGISTRY_ADMIN_ROLE(),
+    ]);
+
+    await (await registry.grantRole(CLINIC_ROLE, signers.clinic.address)).wait();
+    await (await registry.grantRole(CLINIC_ROLE, signers.otherClinic.address)).wait();
+    await (await registry.grantRole(RESEARCHER_ROLE, signers.researcher.address)).wait();
+    await (await registry.grantRole(AUDITOR_ROLE, signers.auditor.address)).wait();
+  });
+
+  describe("roles", function () {
+    it("makes the deployer the registry admin", async function () {
+      expect(await registry.hasRole(REGISTRY_ADMIN_ROLE, signers.admin.address)).to.eq(true);
+      expect(await registry.hasRole(REGISTRY_ADMIN_ROLE, signers.clinic.address)).to.eq(false);
+    });
+
+    it("only lets the admin grant and revoke roles", async function () {
+      await expect(
+        registry.connect(signers.clinic).grantRole(CLINIC_ROLE, signers.outsider.address),
+      ).to.be.revertedWith("Missing role");
+      await expect(
+        registry.connect(signers.clinic).revokeRole(CLINIC_ROLE, signers.otherClinic.address),
+      ).to.be.revertedWith("Missing role");
+    });
+
+    it("rejects the zero address and duplicate grants", async function () {
+      await expect(registry.grantRole(CLINIC_ROLE, ethers.ZeroAddress)).to.be.revertedWith("Invalid account");
+      await expect(registry.grantRole(CLINIC_ROLE, signers.clinic.address)).to.be.revertedWith("Role already granted");
+    });
+
+    it("revokes granted roles but not the caller's own admin role", async function () {
+      await expect(registry.revokeRole(CLINIC_ROLE, signers.outsider.address)).to.be.revertedWith("Role not granted");
+      await expect(registry.revokeRole(REGISTRY_ADMIN_ROLE, signers.admin.address)).to.be.revertedWith(
+        "Cannot revoke own admin role",
+      );
+
+      await expect(registry.revokeRole(CLINIC_ROLE, signers.clinic.address))
+        .to.emit(registry, "RoleRevoked")
+        .withArgs(CLINIC_ROLE, signers.clinic.address, signers.admin.address);
+      expect(await registry.hasRole(CLINIC_ROLE, signers.clinic.address)).to.eq(false);
+    });
+  });
+
+  describe("createBusinessData", function () {
+    it("reverts for a caller without the clinic role", async function () {
+      await expect(createRecord(signers.outsider, "case-1", { value: 40 })).to.be.revertedWith("Missing role");
+    });
+
+    it("rejects duplicate ids, empty pseudonyms and empty commitments", async function () {
+      await createRecord(signers.clinic, "case-1", { value: 40 });
+      await expect(createRecord(signers.clinic, "case-1", { value: 41 })).to.be.revertedWith(
+        "Business data already exists",
+      );
+
+      const encrypted = await encryptRecord(signers.clinic, { value: 42 });
+      const args = [
+        encrypted.handles[0],
+        encrypted.handles[1],
+        encrypted.handles[2],
+        encrypted.handles[3],
+        encrypted.inputProof,
+        0,
+        0,
+        "ORPHA:558",
+      ] as const;
+      await expect(
+        registry.connect(signers.clinic).createBusinessData("case-2", "", commitment("case-2"), ...args),
+      ).to.be.revertedWith("Pseudonym required");
+      await expect(
+        registry.connect(signers.clinic).createBusinessData("case-2", "pseudonym:case-2", ethers.ZeroHash, ...args),
+      ).to.be.revertedWith("Identity commitment required");
+    });
+
+    it("stores the record and shares every encrypted field with its clinic", async function () {
+      await createRecord(signers.clinic, "case-1", { value: 40, diagnosisDelay: 30, severity: 4, sex: 2 });
+
+      const data = await registry.getBusinessData("case-1");
+      expect(data.pseudonym).to.eq("pseudonym:case-1");
+      expect(data.identityCommitment).to.eq(commitment("case-1"));
+      expect(data.description).to.eq("ORPHA:558");
+      expect(data.creator).to.eq(signers.clinic.address);
+      expect(data.isVerified).to.eq(false);
+
+      const fields = await registry.getEncryptedFields("case-1");
+      const decrypt = (type: FhevmTypeEuint, handle: string) =>
+        fhevm.userDecryptEuint(type, handle, registryAddress, signers.clinic);
+      expect(await decrypt(FhevmType.euint32, fields.value)).to.eq(40n);
+      expect(await decrypt(FhevmType.euint16, fields.diagnosisDelay)).to.eq(30n);
+      expect(await decrypt(FhevmType.euint8, fields.severity)).to.eq(4n);
+      expect(await decrypt(FhevmType.euint8, fields.sex)).to.eq(2n);
+
+      expect(await registry.getAllBusinessIds()).to.deep.eq(["case-1"]);
+      expect(await registry.getAllCategories()).to.deep.eq(["ORPHA:558"]);
+      expect(await registry.getCohortSize(signers.clinic.address, "ORPHA:558")).to.eq(1n);
+      expect(await registry.getBusinessDataHistory("case-1")).to.have.length(1);
+      expect(await registry.hasRecordAccess("case-1", signers.clinic.address)).to.eq(true);
+      expect(await registry.hasRecordAccess("case-1", signers.researcher.address)).to.eq(false);
+    });
+
+    it("reverts reads of unknown records", async function () {
+      await expect(registry.getBusinessData("missing")).to.be.revertedWith("Business data does not exist");
+      await expect(registry.getEncryptedValue("missing")).to.be.revertedWith("Business data does not exist");
+      await expect(registry.getBusinessDataBatch(["missing"])).to.be.revertedWith("Business data does not exist");
+    });
+  });
+
+  describe("amendBusinessData", function () {
+    beforeEach(async function () {
+      await createRecord(signers.clinic, "case-1", { value: 40 });
+    });
+
+    it("only lets the creating clinic amend an existing record", async function () {
+      await expect(amendRecord(signers.otherClinic, "case-1", 41)).to.be.revertedWith("Only creator");
+      await expect(amendRecord(signers.clinic, "missing", 41)).to.be.revertedWith("Business data does not exist");
+    });
+
+    it("replaces the value and keeps the previous one in the history", async function () {
+      await amendRecord(signers.clinic, "case-1", 45);
+
+      expect(await decryptValue("case-1", signers.clinic)).to.eq(45n);
+      const history = await registry.getBusinessDataHistory("case-1");
+      expect(history).to.have.length(2);
+      expect(history[1].encryptedValue).to.eq(await registry.getEncryptedValue("case-1"));
+    });
+
+    it("shares the amended value with researchers that still have access", async function () {
+      await (await registry.connect(signers.clinic).grantRecordAccess("case-1", signers.researcher.address)).wait();
+
+      await amendRecord(signers.clinic, "case-1", 45);
+
+      expect(await decryptValue("case-1", signers.researcher)).to.eq(45n);
+    });
+  });
+
+  describe("withdrawConsent", function () {
+    beforeEach(async function () {
+      await createRecord(signers.clinic, "case-1", { value: 10 });
+      await createRecord(signers.clinic, "case-2", { value: 20 });
+      await createRecord(signers.clinic, "case-3", { value: 30 });
+      await (await registry.connect(signers.clinic).grantRecordAccess("case-2", signers.researcher.address)).wait();
+    });
+
+    it("only lets the creating clinic withdraw", async function () {
+      await expect(registry.connect(signers.otherClinic).withdrawConsent("case-2")).to.be.revertedWith("Only creator");
+    });
+
+    it("removes the record from the id pages and lists it as withdrawn", async function () {
+      await expect(registry.connect(signers.clinic).withdrawConsent("case-2")).to.emit(registry, "ConsentWithdrawn");
+
+      const [ids, total] = await registry.getBusinessIdsPage(0, 10);
+      expect(total).to.eq(2n);
+      expect([...ids].sort()).to.deep.eq(["case-1", "case-3"]);
+      expect(await registry.getWithdrawnBusinessIds()).to.deep.eq(["case-2"]);
+      const [withdrawn, withdrawnTotal] = await registry.getWithdrawnBusinessIdsPage(0, 10);
+      expect(withdrawn).to.deep.eq(["case-2"]);
+      expect(withdrawnTotal).to.eq(1n);
+    });
+
+    it("clears the record and its access", async function () {
+      await (await registry.connect(signers.clinic).withdrawConsent("case-2")).wait();
+
+      const [item] = await registry.getBusinessDataBatch(["case-2"]);
+      expect(item.isWithdrawn).to.eq(true);
+      expect(item.pseudonym).to.eq("");
+      expect(item.identityCommitment).to.eq(ethers.ZeroHash);
+      expect(item.description).to.eq("");
+      expect(await registry.getEncryptedValue("case-2")).to.eq(ethers.ZeroHash);
+      expect(await registry.getBusinessDataHistory("case-2")).to.have.length(0);
+      expect(await registry.getRecordGrantees("case-2")).to.deep.eq([]);
+      expect(await registry.recordAccess("case-2", signers.researcher.address)).to.eq(false);
+      expect(await registry.hasRecordAccess("case-2", signers.clinic.address)).to.eq(false);
+    });
+
+    it("blocks every creator action once consent is withdrawn", async function () {
+      await (await registry.connect(signers.clinic).withdrawConsent("case-2")).wait();
+
+      await expect(registry.connect(signers.clinic).withdrawConsent("case-2")).to.be.revertedWith("Consent withdrawn");
+      await expect(amendRecord(signers.clinic, "case-2", 25)).to.be.revertedWith("Consent withdrawn");
+      await expect(
+        registry.connect(signers.clinic).grantRecordAccess("case-2", signers.researcher.address),
+      ).to.be.revertedWith("Consent withdrawn");
+      await expect(registry.connect(signers.auditor).publishDecryption("case-2")).to.be.revertedWith(
+        "Consent withdrawn",
+      );
+    });
+  });
+
+  describe("publishAggregates", function () {
+    async function decryptAggregates() {
+      const aggregates = await registry.getEncryptedAggregates();
+      // One at a time: the mock coprocessor replays its events for each decryption
+      const decrypt = (handle: string) => fhevm.publicDecryptEuint(FhevmType.euint32, handle);
+      return {
+        sum: await decrypt(aggregates.sum),
+        count: await decrypt(aggregates.count),
+        min: await decrypt(aggregates.min),
+        max: await decrypt(aggregates.max),
+      };
+    }
+
+    it("only lets the registry admin publish", async function () {
+      await expect(registry.connect(signers.clinic).publishAggregates()).to.be.revertedWith("Missing role");
+    });
+
+    it("reverts below MIN_COHORT_SIZE records", async function () {
+      for (let i = 1; i <= 4; i++) {
+        await createRecord(signers.clinic, `case-${i}`, { value: 10 * i });
+      }
+      await amendRecord(signers.clinic, "case-1", 11);
+
+      await expect(registry.publishAggregates()).to.be.revertedWith("Cohort too small");
+    });
+
+    it("publishes decryptable totals once the cohort is large enough", async function () {
+      expect(await registry.getEncryptedAggregates()).to.deep.eq([
+        ethers.ZeroHash,
+        ethers.ZeroHash,
+        ethers.ZeroHash,
+        ethers.ZeroHash,
+      ]);
+      for (let i = 1; i <= 5; i++) {
+        await createRecord(signers.clinic, `case-${i}`, { value: 10 * i });
+      }
+
+      await expect(registry.publishAggregates()).to.emit(registry, "AggregatesPublished").withArgs(5n);
+
+      expect(await decryptAggregates()).to.deep.eq({ sum: 150n, count: 5n, min: 10n, max: 50n });
+    });
+
+    it("reverts with fewer than MIN_COHORT_SIZE changes since the last snapshot", async function () {
+      for (let i = 1; i <= 6; i++) {
+        await createRecord(signers.clinic, `case-${i}`, { value: 10 * i });
+      }
+      await (await registry.publishAggregates()).wait();
+
+      await (await registry.connect(signers.clinic).withdrawConsent("case-6")).wait();
+      for (let i = 1; i <= 3; i++) {
+        await amendRecord(signers.clinic, `case-${i}`, 10 * i + 1);
+      }
+      await expect(registry.publishAggregates()).to.be.revertedWith("Cohort too small");
+
+      await amendRecord(signers.clinic, "case-4", 41);
+      await (await registry.publishAggregates()).wait();
+
+      // case-6 is gone from the totals; min and max stay bounds over superseded values
+      expect(await decryptAggregates()).to.deep.eq({ sum: 11n + 21n + 31n + 41n + 50n, count: 5n, min: 10n, max: 60n });
+    });
+  });
+
+  describe("publishCategoryAggregates", function () {
+    it("reverts for unknown categories", async function () {
+      await expect(registry.publishCategoryAggregates("ORPHA:1")).to.be.revertedWith("Category does not exist");
+      await expect(registry.getCategoryAggregates("ORPHA:1")).to.be.revertedWith("Category does not exist");
+    });
+
+    it("publishes a category only once it holds MIN_COHORT_SIZE records", async function () {
+      for (let i = 1; i <= 4; i++) {
+        await createRecord(i % 2 ? signers.clinic : signers.otherClinic, `case-${i}`, { value: i });
+      }
+      await createRecord(signers.clinic, "other-1", { value: 100, category: "ORPHA:1" });
+      await expect(registry.publishCategoryAggregates("ORPHA:558")).to.be.revertedWith("Cohort too small");
+      await expect(registry.connect(signers.clinic).publishCategoryAggregates("ORPHA:558")).to.be.revertedWith(
+        "Missing role",
+      );
+
+      await createRecord(signers.otherClinic, "case-5", { value: 5 });
+      await expect(registry.publishCategoryAggregates("ORPHA:558"))
+        .to.emit(registry, "CategoryAggregatesPublished")
+        .withArgs("ORPHA:558", 5n);
+
+      const aggregate = await registry.getCategoryAggregates("ORPHA:558");
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, aggregate.sum)).to.eq(15n);
+      expect(await fhevm.publicDecryptEuint(FhevmType.euint32, aggregate.count)).to.eq(5n);
+      await expect(registry.publishCategoryAggregates("ORPHA:558")).to.be.revertedWith("Cohort too small");
+    });
+  });
+
+  describe("publishDecryption and verifyDecryption", function () {
+    beforeEach(async function () {
+      await createRecord(signers.clinic, "case-1", { value: 40 });
+    });
+
+    it("only lets the creator or an auditor publish and verify", async function () {
+      await expect(registry.connect(signers.outsider).publishDecryption("case-1")).to.be.revertedWith("Missing role");
+      await expect(registry.connect(signers.researcher).verifyDecryption("case-1", "0x", "0x")).to.be.revertedWith(
+        "Missing role",
+      );
+      await expect(registry.connect(signers.auditor).publishDecryption("missing")).to.be.revertedWith(
+        "Business data does not exist",
+      );
+    });
+
+    it("records the publicly decrypted value once, with a valid KMS proof", async function () {
+      await expect(registry.connect(signers.auditor).publishDecryption("case-1"))
+        .to.emit(registry, "DecryptionPublished")
+        .withArgs("case-1");
+
+      const handle = await registry.getEncryptedValue("case-1");
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([handle]);
+      await expect(registry.connect(signers.clinic).verifyDecryption("case-1", abiEncodedClearValues, decryptionProof))
+        .to.emit(registry, "DecryptionVerified")
+        .withArgs("case-1", 40n);
+
+      const data = await registry.getBusinessData("case-1");
+      expect(data.isVerified).to.eq(true);
+      expect(data.decryptedValue).to.eq(40n);
+      await expect(
+        registry.connect(signers.auditor).verifyDecryption("case-1", abiEncodedClearValues, decryptionProof),
+      ).to.be.revertedWith("Data already verified");
+    });
+
+    it("resets the verified value when the record is amended", async function () {
+      await (await registry.connect(signers.clinic).publishDecryption("case-1")).wait();
+      const { abiEncodedClearValues, decryptionProof } = await fhevm.publicDecrypt([
+        await registry.getEncryptedValue("case-1"),
+      ]);
+      await (
+        await registry.connect(signers.clinic).verifyDecryption("case-1", abiEncodedClearValues, decryptionProof)
+      ).wait();
+
+      await amendRecord(signers.clinic, "case-1", 45);
+
+      const data = await registry.getBusinessData("case-1");
+      expect(data.isVerified).to.eq(false);
+      expect(data.decryptedValue).to.eq(0n);
+    });
+  });
+
+  describe("record access", function () {
+    beforeEach(async function () {
+      await createRecord(signers.clinic, "case-1", { value: 40 });
+    });
+
+    it("only shares records with researchers", async function () {
+      await expect(
+        registry.connect(signers.clinic).grantRecordAccess("case-1", signers.outsider.address),
+      ).to.be.revertedWith("Not a researcher");
+      await expect(
+        registry.connect(signers.otherClinic).grantRecordAccess("case-1", signers.researcher.address),
+      ).to.be.revertedWith("Only creator");
+    });
+
+    it("lets a granted researcher decrypt the record", async function () {
+      await expect(registry.connect(signers.clinic).grantRecordAccess("case-1", signers.researcher.address))
+        .to.emit(registry, "RecordAccessGranted")
+        .withArgs("case-1", signers.researcher.address);
+
+      expect(await decryptValue("case-1", signers.researcher)).to.eq(40n);
+      expect(await registry.getRecordGrantees("case-1")).to.deep.eq([signers.researcher.address]);
+      expect(await registry.hasRecordAccess("case-1", signers.researcher.address)).to.eq(true);
+    });
+
+    it("withholds values amended after access is revoked", async function () {
+      await expect(
+        registry.connect(signers.clinic).revokeRecordAccess("case-1", signers.researcher.address),
+      ).to.be.revertedWith("Access not granted");
+      await (await registry.connect(signers.clinic).grantRecordAccess("case-1", signers.researcher.address)).wait();
+
+      await (await registry.connect(signers.clinic).revokeRecordAccess("case-1", signers.researcher.address)).wait();
+      await amendRecord(signers.clinic, "case-1", 45);
+
+      expect(await registry.getRecordGrantees("case-1")).to.deep.eq([]);
+      expect(await registry.hasRecordAccess("case-1", signers.researcher.address)).to.eq(false);
+      await expect(decryptValue("case-1", signers.researcher)).to.be.rejected;
+    });
+  });
+
+  describe("cohort access", function () {
+    beforeEach(async function () {
+      for (let i = 1; i <= 3; i++) {
+        await createRecord(signers.clinic, `case-${i}`, { value: 10 * i });
+      }
+    });
+
+    it("only lets clinics share cohorts with researchers", async function () {
+      await expect(
+        registry.connect(signers.outsider).grantCohortAccess("ORPHA:558", signers.researcher.address, 0, 10),
+      ).to.be.revertedWith("Missing role");
+      await expect(
+        registry.connect(signers.clinic).grantCohortAccess("ORPHA:558", signers.outsider.address, 0, 10),
+      ).to.be.revertedWith("Not a researcher");
+    });
+
+    it("shares the requested page of the cohort and every later record", async function () {
+      await expect(registry.connect(signers.clinic).grantCohortAccess("ORPHA:558", signers.researcher.address, 1, 1))
+        .to.emit(registry, "CohortAccessGranted")
+        .withArgs("ORPHA:558", signers.clinic.address, signers.researcher.address);
+
+      expect(await decryptValue("case-2", signers.researcher)).to.eq(20n);
+      await expect(decryptValue("case-1", signers.researcher)).to.be.rejected;
+
+      await createRecord(signers.clinic, "case-4", { value: 40 });
+      expect(await decryptValue("case-4", signers.researcher)).to.eq(40n);
+      expect(await registry.getCohortGrantees(signers.clinic.address, "ORPHA:558")).to.deep.eq([
+        signers.researcher.address,
+      ]);
+    });
+
+    it("stops sharing new records once revoked", async function () {
+      await expect(
+        registry.connect(signers.clinic).revokeCohortAccess("ORPHA:558", signers.researcher.address),
+      ).to.be.revertedWith("Access not granted");
+      await (
+        await registry.connect(signers.clinic).grantCohortAccess("ORPHA:558", signers.researcher.address, 0, 10)
+      ).wait();
+
+      await expect(registry.connect(signers.clinic).revokeCohortAccess("ORPHA:558", signers.researcher.address))
+        .to.emit(registry, "CohortAccessRevoked")
+        .withArgs("ORPHA:558", signers.clinic.address, signers.researcher.address);
+      await createRecord(signers.clinic, "case-4", { value: 40 });
+
+      expect(await registry.hasRecordAccess("case-4", signers.researcher.address)).to.eq(false);
+      await expect(decryptValue("case-4", signers.researcher)).to.be.rejected;
+      expect(await registry.getCohortGrantees(signers.clinic.address, "ORPHA:558")).to.deep.eq([]);
+    });
+  });
+
+  describe("getBusinessIdsPage", function () {
+    it("pages over the ids and returns the total", async function () {
+      for (let i = 1; i <= 3; i++) {
+        await createRecord(signers.clinic, `case-${i}`, { value: i });
+      }
+
+      expect(await registry.getBusinessIdsPage(1, 1)).to.deep.eq([["case-2"], 3n]);
+      expect(await registry.getBusinessIdsPage(2, 10)).to.deep.eq([["case-3"], 3n]);
+      expect(await registry.getBusinessIdsPage(3, 10)).to.deep.eq([[], 3n]);
+    });
+  });
+});
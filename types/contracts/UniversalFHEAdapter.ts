@@ -23,27 +23,149 @@ import type {
   TypedContractMethod,
 } from "../common";
 
+export declare namespace UniversalFHEAdapter {
+  export type BusinessDataViewStruct = {
+    businessId: string;
+    pseudonym: string;
+    identityCommitment: BytesLike;
+    publicValue1: BigNumberish;
+    publicValue2: BigNumberish;
+    description: string;
+    creator: AddressLike;
+    timestamp: BigNumberish;
+    isVerified: boolean;
+    decryptedValue: BigNumberish;
+    isWithdrawn: boolean;
+  };
+
+  export type BusinessDataViewStructOutput = [
+    businessId: string,
+    pseudonym: string,
+    identityCommitment: string,
+    publicValue1: bigint,
+    publicValue2: bigint,
+    description: string,
+    creator: string,
+    timestamp: bigint,
+    isVerified: boolean,
+    decryptedValue: bigint,
+    isWithdrawn: boolean
+  ] & {
+    businessId: string;
+    pseudonym: string;
+    identityCommitment: string;
+    publicValue1: bigint;
+    publicValue2: bigint;
+    description: string;
+    creator: string;
+    timestamp: bigint;
+    isVerified: boolean;
+    decryptedValue: bigint;
+    isWithdrawn: boolean;
+  };
+
+  export type BusinessDataVersionStruct = {
+    encryptedValue: BytesLike;
+    timestamp: BigNumberish;
+    editor: AddressLike;
+  };
+
+  export type BusinessDataVersionStructOutput = [
+    encryptedValue: string,
+    timestamp: bigint,
+    editor: string
+  ] & { encryptedValue: string; timestamp: bigint; editor: string };
+}
+
 export interface UniversalFHEAdapterInterface extends Interface {
   getFunction(
     nameOrSignature:
+      | "AUDITOR_ROLE"
+      | "CLINIC_ROLE"
+      | "MIN_COHORT_SIZE"
+      | "REGISTRY_ADMIN_ROLE"
+      | "RESEARCHER_ROLE"
+      | "amendBusinessData"
       | "businessData"
       | "businessIds"
+      | "categories"
+      | "cohortAccess"
       | "confidentialProtocolId"
       | "createBusinessData"
       | "getAllBusinessIds"
+      | "getAllCategories"
       | "getBusinessData"
+      | "getBusinessDataBatch"
+      | "getBusinessDataHistory"
+      | "getBusinessIdsPage"
+      | "getCategoryAggregates"
+      | "getCohortGrantees"
+      | "getCohortSize"
+      | "getEncryptedAggregates"
+      | "getEncryptedFields"
       | "getEncryptedValue"
+      | "getRecordGrantees"
+      | "getWithdrawnBusinessIds"
+      | "getWithdrawnBusinessIdsPage"
+      | "grantCohortAccess"
+      | "grantRecordAccess"
+      | "grantRole"
+      | "hasRecordAccess"
+      | "hasRole"
       | "isAvailable"
+      | "publishAggregates"
+      | "publishCategoryAggregates"
+      | "publishDecryption"
+      | "recordAccess"
+      | "revokeCohortAccess"
+      | "revokeRecordAccess"
+      | "revokeRole"
       | "verifyDecryption"
+      | "withdrawConsent"
   ): FunctionFragment;
 
   getEvent(
     nameOrSignatureOrTopic:
+      | "AggregatesPublished"
+      | "BusinessDataAmended"
       | "BusinessDataCreated"
+      | "CategoryAggregatesPublished"
+      | "CohortAccessGranted"
+      | "CohortAccessRevoked"
+      | "ConsentWithdrawn"
+      | "DecryptionPublished"
       | "DecryptionVerified"
       | "PublicDecryptionVerified"
+      | "RecordAccessGranted"
+      | "RecordAccessRevoked"
+      | "RoleGranted"
+      | "RoleRevoked"
   ): EventFragment;
 
+  encodeFunctionData(
+    functionFragment: "AUDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "CLINIC_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "MIN_COHORT_SIZE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "REGISTRY_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RESEARCHER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "amendBusinessData",
+    values: [string, BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "businessData",
     values: [string]
@@ -52,6 +174,14 @@ export interface UniversalFHEAdapterInterface extends Interface {
     functionFragment: "businessIds",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "categories",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "cohortAccess",
+    values: [AddressLike, string, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "confidentialProtocolId",
     values?: undefined
@@ -63,6 +193,10 @@ export interface UniversalFHEAdapterInterface extends Interface {
       string,
       BytesLike,
       BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
+      BytesLike,
       BigNumberish,
       BigNumberish,
       string
@@ -72,23 +206,147 @@ export interface UniversalFHEAdapterInterface extends Interface {
     functionFragment: "getAllBusinessIds",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "getAllCategories",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "getBusinessData",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getBusinessDataBatch",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBusinessDataHistory",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getBusinessIdsPage",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCategoryAggregates",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCohortGrantees",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getCohortSize",
+    values: [AddressLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedAggregates",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getEncryptedFields",
+    values: [string]
+  ): string;
   encodeFunctionData(
     functionFragment: "getEncryptedValue",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getRecordGrantees",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getWithdrawnBusinessIds",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getWithdrawnBusinessIdsPage",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantCohortAccess",
+    values: [string, AddressLike, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRecordAccess",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRecordAccess",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "isAvailable",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "publishAggregates",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishCategoryAggregates",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishDecryption",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "recordAccess",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeCohortAccess",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRecordAccess",
+    values: [string, AddressLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, AddressLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "verifyDecryption",
     values: [string, BytesLike, BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "withdrawConsent",
+    values: [string]
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "AUDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "CLINIC_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "MIN_COHORT_SIZE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "REGISTRY_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RESEARCHER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "amendBusinessData",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "businessData",
     data: BytesLike
@@ -97,6 +355,11 @@ export interface UniversalFHEAdapterInterface extends Interface {
     functionFragment: "businessIds",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "categories", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "cohortAccess",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "confidentialProtocolId",
     data: BytesLike
@@ -109,22 +372,147 @@ export interface UniversalFHEAdapterInterface extends Interface {
     functionFragment: "getAllBusinessIds",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getAllCategories",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getBusinessData",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBusinessDataBatch",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBusinessDataHistory",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getBusinessIdsPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCategoryAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCohortGrantees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getCohortSize",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getEncryptedFields",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getEncryptedValue",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRecordGrantees",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getWithdrawnBusinessIds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getWithdrawnBusinessIdsPage",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantCohortAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grantRecordAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "hasRecordAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "isAvailable",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishCategoryAggregates",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishDecryption",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "recordAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeCohortAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "revokeRecordAccess",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "verifyDecryption",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "withdrawConsent",
+    data: BytesLike
+  ): Result;
+}
+
+export namespace AggregatesPublishedEvent {
+  export type InputTuple = [cohortSize: BigNumberish];
+  export type OutputTuple = [cohortSize: bigint];
+  export interface OutputObject {
+    cohortSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace BusinessDataAmendedEvent {
+  export type InputTuple = [
+    businessId: string,
+    editor: AddressLike,
+    version: BigNumberish
+  ];
+  export type OutputTuple = [
+    businessId: string,
+    editor: string,
+    version: bigint
+  ];
+  export interface OutputObject {
+    businessId: string;
+    editor: string;
+    version: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
 }
 
 export namespace BusinessDataCreatedEvent {
@@ -140,6 +528,97 @@ export namespace BusinessDataCreatedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace CategoryAggregatesPublishedEvent {
+  export type InputTuple = [category: string, cohortSize: BigNumberish];
+  export type OutputTuple = [category: string, cohortSize: bigint];
+  export interface OutputObject {
+    category: string;
+    cohortSize: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CohortAccessGrantedEvent {
+  export type InputTuple = [
+    category: string,
+    creator: AddressLike,
+    researcher: AddressLike
+  ];
+  export type OutputTuple = [
+    category: string,
+    creator: string,
+    researcher: string
+  ];
+  export interface OutputObject {
+    category: string;
+    creator: string;
+    researcher: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace CohortAccessRevokedEvent {
+  export type InputTuple = [
+    category: string,
+    creator: AddressLike,
+    researcher: AddressLike
+  ];
+  export type OutputTuple = [
+    category: string,
+    creator: string,
+    researcher: string
+  ];
+  export interface OutputObject {
+    category: string;
+    creator: string;
+    researcher: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace ConsentWithdrawnEvent {
+  export type InputTuple = [
+    businessId: string,
+    creator: AddressLike,
+    timestamp: BigNumberish
+  ];
+  export type OutputTuple = [
+    businessId: string,
+    creator: string,
+    timestamp: bigint
+  ];
+  export interface OutputObject {
+    businessId: string;
+    creator: string;
+    timestamp: bigint;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace DecryptionPublishedEvent {
+  export type InputTuple = [businessId: string];
+  export type OutputTuple = [businessId: string];
+  export interface OutputObject {
+    businessId: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export namespace DecryptionVerifiedEvent {
   export type InputTuple = [businessId: string, decryptedValue: BigNumberish];
   export type OutputTuple = [businessId: string, decryptedValue: bigint];
@@ -172,6 +651,68 @@ export namespace PublicDecryptionVerifiedEvent {
   export type LogDescription = TypedLogDescription<Event>;
 }
 
+export namespace RecordAccessGrantedEvent {
+  export type InputTuple = [businessId: string, researcher: AddressLike];
+  export type OutputTuple = [businessId: string, researcher: string];
+  export interface OutputObject {
+    businessId: string;
+    researcher: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RecordAccessRevokedEvent {
+  export type InputTuple = [businessId: string, researcher: AddressLike];
+  export type OutputTuple = [businessId: string, researcher: string];
+  export interface OutputObject {
+    businessId: string;
+    researcher: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleGrantedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
+export namespace RoleRevokedEvent {
+  export type InputTuple = [
+    role: BytesLike,
+    account: AddressLike,
+    sender: AddressLike
+  ];
+  export type OutputTuple = [role: string, account: string, sender: string];
+  export interface OutputObject {
+    role: string;
+    account: string;
+    sender: string;
+  }
+  export type Event = TypedContractEvent<InputTuple, OutputTuple, OutputObject>;
+  export type Filter = TypedDeferredTopicFilter<Event>;
+  export type Log = TypedEventLog<Event>;
+  export type LogDescription = TypedLogDescription<Event>;
+}
+
 export interface UniversalFHEAdapter extends BaseContract {
   connect(runner?: ContractRunner | null): UniversalFHEAdapter;
   waitForDeployment(): Promise<this>;
@@ -215,10 +756,30 @@ export interface UniversalFHEAdapter extends BaseContract {
     event?: TCEvent
   ): Promise<this>;
 
+  AUDITOR_ROLE: TypedContractMethod<[], [string], "view">;
+
+  CLINIC_ROLE: TypedContractMethod<[], [string], "view">;
+
+  MIN_COHORT_SIZE: TypedContractMethod<[], [bigint], "view">;
+
+  REGISTRY_ADMIN_ROLE: TypedContractMethod<[], [string], "view">;
+
+  RESEARCHER_ROLE: TypedContractMethod<[], [string], "view">;
+
+  amendBusinessData: TypedContractMethod<
+    [businessId: string, encryptedValue: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
+
   businessData: TypedContractMethod<
     [arg0: string],
     [
       [
+        string,
+        string,
+        string,
+        string,
         string,
         string,
         bigint,
@@ -227,10 +788,15 @@ export interface UniversalFHEAdapter extends BaseContract {
         string,
         bigint,
         bigint,
+        boolean,
         boolean
       ] & {
-        name: string;
+        pseudonym: string;
+        identityCommitment: string;
         encryptedValue: string;
+        encryptedDiagnosisDelay: string;
+        encryptedSeverity: string;
+        encryptedSex: string;
         publicValue1: bigint;
         publicValue2: bigint;
         description: string;
@@ -238,56 +804,231 @@ export interface UniversalFHEAdapter extends BaseContract {
         timestamp: bigint;
         decryptedValue: bigint;
         isVerified: boolean;
+        isWithdrawn: boolean;
       }
     ],
     "view"
   >;
 
-  businessIds: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  businessIds: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  categories: TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+
+  cohortAccess: TypedContractMethod<
+    [arg0: AddressLike, arg1: string, arg2: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+
+  createBusinessData: TypedContractMethod<
+    [
+      businessId: string,
+      pseudonym: string,
+      identityCommitment: BytesLike,
+      encryptedValue: BytesLike,
+      encryptedDiagnosisDelay: BytesLike,
+      encryptedSeverity: BytesLike,
+      encryptedSex: BytesLike,
+      inputProof: BytesLike,
+      publicValue1: BigNumberish,
+      publicValue2: BigNumberish,
+      description: string
+    ],
+    [void],
+    "nonpayable"
+  >;
+
+  getAllBusinessIds: TypedContractMethod<[], [string[]], "view">;
+
+  getAllCategories: TypedContractMethod<[], [string[]], "view">;
+
+  getBusinessData: TypedContractMethod<
+    [businessId: string],
+    [
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        boolean,
+        bigint
+      ] & {
+        pseudonym: string;
+        identityCommitment: string;
+        publicValue1: bigint;
+        publicValue2: bigint;
+        description: string;
+        creator: string;
+        timestamp: bigint;
+        isVerified: boolean;
+        decryptedValue: bigint;
+      }
+    ],
+    "view"
+  >;
+
+  getBusinessDataBatch: TypedContractMethod<
+    [ids: string[]],
+    [UniversalFHEAdapter.BusinessDataViewStructOutput[]],
+    "view"
+  >;
+
+  getBusinessDataHistory: TypedContractMethod<
+    [businessId: string],
+    [UniversalFHEAdapter.BusinessDataVersionStructOutput[]],
+    "view"
+  >;
+
+  getBusinessIdsPage: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint] & { ids: string[]; total: bigint }],
+    "view"
+  >;
+
+  getCategoryAggregates: TypedContractMethod<
+    [category: string],
+    [[string, string] & { sum: string; count: string }],
+    "view"
+  >;
+
+  getCohortGrantees: TypedContractMethod<
+    [creator: AddressLike, category: string],
+    [string[]],
+    "view"
+  >;
+
+  getCohortSize: TypedContractMethod<
+    [creator: AddressLike, category: string],
+    [bigint],
+    "view"
+  >;
+
+  getEncryptedAggregates: TypedContractMethod<
+    [],
+    [
+      [string, string, string, string] & {
+        sum: string;
+        count: string;
+        min: string;
+        max: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedFields: TypedContractMethod<
+    [businessId: string],
+    [
+      [string, string, string, string] & {
+        value: string;
+        diagnosisDelay: string;
+        severity: string;
+        sex: string;
+      }
+    ],
+    "view"
+  >;
+
+  getEncryptedValue: TypedContractMethod<
+    [businessId: string],
+    [string],
+    "view"
+  >;
+
+  getRecordGrantees: TypedContractMethod<
+    [businessId: string],
+    [string[]],
+    "view"
+  >;
+
+  getWithdrawnBusinessIds: TypedContractMethod<[], [string[]], "view">;
 
-  confidentialProtocolId: TypedContractMethod<[], [bigint], "view">;
+  getWithdrawnBusinessIdsPage: TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint] & { ids: string[]; total: bigint }],
+    "view"
+  >;
 
-  createBusinessData: TypedContractMethod<
+  grantCohortAccess: TypedContractMethod<
     [
-      businessId: string,
-      name: string,
-      encryptedValue: BytesLike,
-      inputProof: BytesLike,
-      publicValue1: BigNumberish,
-      publicValue2: BigNumberish,
-      description: string
+      category: string,
+      researcher: AddressLike,
+      offset: BigNumberish,
+      limit: BigNumberish
     ],
     [void],
     "nonpayable"
   >;
 
-  getAllBusinessIds: TypedContractMethod<[], [string[]], "view">;
+  grantRecordAccess: TypedContractMethod<
+    [businessId: string, researcher: AddressLike],
+    [void],
+    "nonpayable"
+  >;
 
-  getBusinessData: TypedContractMethod<
-    [businessId: string],
-    [
-      [string, bigint, bigint, string, string, bigint, boolean, bigint] & {
-        name: string;
-        publicValue1: bigint;
-        publicValue2: bigint;
-        description: string;
-        creator: string;
-        timestamp: bigint;
-        isVerified: boolean;
-        decryptedValue: bigint;
-      }
-    ],
+  grantRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  hasRecordAccess: TypedContractMethod<
+    [businessId: string, account: AddressLike],
+    [boolean],
     "view"
   >;
 
-  getEncryptedValue: TypedContractMethod<
-    [businessId: string],
-    [string],
+  hasRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
     "view"
   >;
 
   isAvailable: TypedContractMethod<[], [boolean], "view">;
 
+  publishAggregates: TypedContractMethod<[], [void], "nonpayable">;
+
+  publishCategoryAggregates: TypedContractMethod<
+    [category: string],
+    [void],
+    "nonpayable"
+  >;
+
+  publishDecryption: TypedContractMethod<
+    [businessId: string],
+    [void],
+    "nonpayable"
+  >;
+
+  recordAccess: TypedContractMethod<
+    [arg0: string, arg1: AddressLike],
+    [boolean],
+    "view"
+  >;
+
+  revokeCohortAccess: TypedContractMethod<
+    [category: string, researcher: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRecordAccess: TypedContractMethod<
+    [businessId: string, researcher: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
+  revokeRole: TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+
   verifyDecryption: TypedContractMethod<
     [
       businessId: string,
@@ -298,16 +1039,48 @@ export interface UniversalFHEAdapter extends BaseContract {
     "nonpayable"
   >;
 
+  withdrawConsent: TypedContractMethod<
+    [businessId: string],
+    [void],
+    "nonpayable"
+  >;
+
   getFunction<T extends ContractMethod = ContractMethod>(
     key: string | FunctionFragment
   ): T;
 
+  getFunction(
+    nameOrSignature: "AUDITOR_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "CLINIC_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "MIN_COHORT_SIZE"
+  ): TypedContractMethod<[], [bigint], "view">;
+  getFunction(
+    nameOrSignature: "REGISTRY_ADMIN_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "RESEARCHER_ROLE"
+  ): TypedContractMethod<[], [string], "view">;
+  getFunction(
+    nameOrSignature: "amendBusinessData"
+  ): TypedContractMethod<
+    [businessId: string, encryptedValue: BytesLike, inputProof: BytesLike],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "businessData"
   ): TypedContractMethod<
     [arg0: string],
     [
       [
+        string,
+        string,
+        string,
+        string,
         string,
         string,
         bigint,
@@ -316,10 +1089,15 @@ export interface UniversalFHEAdapter extends BaseContract {
         string,
         bigint,
         bigint,
+        boolean,
         boolean
       ] & {
-        name: string;
+        pseudonym: string;
+        identityCommitment: string;
         encryptedValue: string;
+        encryptedDiagnosisDelay: string;
+        encryptedSeverity: string;
+        encryptedSex: string;
         publicValue1: bigint;
         publicValue2: bigint;
         description: string;
@@ -327,6 +1105,7 @@ export interface UniversalFHEAdapter extends BaseContract {
         timestamp: bigint;
         decryptedValue: bigint;
         isVerified: boolean;
+        isWithdrawn: boolean;
       }
     ],
     "view"
@@ -334,6 +1113,16 @@ export interface UniversalFHEAdapter extends BaseContract {
   getFunction(
     nameOrSignature: "businessIds"
   ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "categories"
+  ): TypedContractMethod<[arg0: BigNumberish], [string], "view">;
+  getFunction(
+    nameOrSignature: "cohortAccess"
+  ): TypedContractMethod<
+    [arg0: AddressLike, arg1: string, arg2: AddressLike],
+    [boolean],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "confidentialProtocolId"
   ): TypedContractMethod<[], [bigint], "view">;
@@ -342,8 +1131,12 @@ export interface UniversalFHEAdapter extends BaseContract {
   ): TypedContractMethod<
     [
       businessId: string,
-      name: string,
+      pseudonym: string,
+      identityCommitment: BytesLike,
       encryptedValue: BytesLike,
+      encryptedDiagnosisDelay: BytesLike,
+      encryptedSeverity: BytesLike,
+      encryptedSex: BytesLike,
       inputProof: BytesLike,
       publicValue1: BigNumberish,
       publicValue2: BigNumberish,
@@ -355,13 +1148,27 @@ export interface UniversalFHEAdapter extends BaseContract {
   getFunction(
     nameOrSignature: "getAllBusinessIds"
   ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getAllCategories"
+  ): TypedContractMethod<[], [string[]], "view">;
   getFunction(
     nameOrSignature: "getBusinessData"
   ): TypedContractMethod<
     [businessId: string],
     [
-      [string, bigint, bigint, string, string, bigint, boolean, bigint] & {
-        name: string;
+      [
+        string,
+        string,
+        bigint,
+        bigint,
+        string,
+        string,
+        bigint,
+        boolean,
+        bigint
+      ] & {
+        pseudonym: string;
+        identityCommitment: string;
         publicValue1: bigint;
         publicValue2: bigint;
         description: string;
@@ -373,12 +1180,168 @@ export interface UniversalFHEAdapter extends BaseContract {
     ],
     "view"
   >;
+  getFunction(
+    nameOrSignature: "getBusinessDataBatch"
+  ): TypedContractMethod<
+    [ids: string[]],
+    [UniversalFHEAdapter.BusinessDataViewStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBusinessDataHistory"
+  ): TypedContractMethod<
+    [businessId: string],
+    [UniversalFHEAdapter.BusinessDataVersionStructOutput[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getBusinessIdsPage"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint] & { ids: string[]; total: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCategoryAggregates"
+  ): TypedContractMethod<
+    [category: string],
+    [[string, string] & { sum: string; count: string }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCohortGrantees"
+  ): TypedContractMethod<
+    [creator: AddressLike, category: string],
+    [string[]],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getCohortSize"
+  ): TypedContractMethod<
+    [creator: AddressLike, category: string],
+    [bigint],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedAggregates"
+  ): TypedContractMethod<
+    [],
+    [
+      [string, string, string, string] & {
+        sum: string;
+        count: string;
+        min: string;
+        max: string;
+      }
+    ],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "getEncryptedFields"
+  ): TypedContractMethod<
+    [businessId: string],
+    [
+      [string, string, string, string] & {
+        value: string;
+        diagnosisDelay: string;
+        severity: string;
+        sex: string;
+      }
+    ],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "getEncryptedValue"
   ): TypedContractMethod<[businessId: string], [string], "view">;
+  getFunction(
+    nameOrSignature: "getRecordGrantees"
+  ): TypedContractMethod<[businessId: string], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getWithdrawnBusinessIds"
+  ): TypedContractMethod<[], [string[]], "view">;
+  getFunction(
+    nameOrSignature: "getWithdrawnBusinessIdsPage"
+  ): TypedContractMethod<
+    [offset: BigNumberish, limit: BigNumberish],
+    [[string[], bigint] & { ids: string[]; total: bigint }],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "grantCohortAccess"
+  ): TypedContractMethod<
+    [
+      category: string,
+      researcher: AddressLike,
+      offset: BigNumberish,
+      limit: BigNumberish
+    ],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantRecordAccess"
+  ): TypedContractMethod<
+    [businessId: string, researcher: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "grantRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "hasRecordAccess"
+  ): TypedContractMethod<
+    [businessId: string, account: AddressLike],
+    [boolean],
+    "view"
+  >;
+  getFunction(
+    nameOrSignature: "hasRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [boolean],
+    "view"
+  >;
   getFunction(
     nameOrSignature: "isAvailable"
   ): TypedContractMethod<[], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "publishAggregates"
+  ): TypedContractMethod<[], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "publishCategoryAggregates"
+  ): TypedContractMethod<[category: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "publishDecryption"
+  ): TypedContractMethod<[businessId: string], [void], "nonpayable">;
+  getFunction(
+    nameOrSignature: "recordAccess"
+  ): TypedContractMethod<[arg0: string, arg1: AddressLike], [boolean], "view">;
+  getFunction(
+    nameOrSignature: "revokeCohortAccess"
+  ): TypedContractMethod<
+    [category: string, researcher: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeRecordAccess"
+  ): TypedContractMethod<
+    [businessId: string, researcher: AddressLike],
+    [void],
+    "nonpayable"
+  >;
+  getFunction(
+    nameOrSignature: "revokeRole"
+  ): TypedContractMethod<
+    [role: BytesLike, account: AddressLike],
+    [void],
+    "nonpayable"
+  >;
   getFunction(
     nameOrSignature: "verifyDecryption"
   ): TypedContractMethod<
@@ -390,7 +1353,24 @@ export interface UniversalFHEAdapter extends BaseContract {
     [void],
     "nonpayable"
   >;
+  getFunction(
+    nameOrSignature: "withdrawConsent"
+  ): TypedContractMethod<[businessId: string], [void], "nonpayable">;
 
+  getEvent(
+    key: "AggregatesPublished"
+  ): TypedContractEvent<
+    AggregatesPublishedEvent.InputTuple,
+    AggregatesPublishedEvent.OutputTuple,
+    AggregatesPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "BusinessDataAmended"
+  ): TypedContractEvent<
+    BusinessDataAmendedEvent.InputTuple,
+    BusinessDataAmendedEvent.OutputTuple,
+    BusinessDataAmendedEvent.OutputObject
+  >;
   getEvent(
     key: "BusinessDataCreated"
   ): TypedContractEvent<
@@ -398,6 +1378,41 @@ export interface UniversalFHEAdapter extends BaseContract {
     BusinessDataCreatedEvent.OutputTuple,
     BusinessDataCreatedEvent.OutputObject
   >;
+  getEvent(
+    key: "CategoryAggregatesPublished"
+  ): TypedContractEvent<
+    CategoryAggregatesPublishedEvent.InputTuple,
+    CategoryAggregatesPublishedEvent.OutputTuple,
+    CategoryAggregatesPublishedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CohortAccessGranted"
+  ): TypedContractEvent<
+    CohortAccessGrantedEvent.InputTuple,
+    CohortAccessGrantedEvent.OutputTuple,
+    CohortAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "CohortAccessRevoked"
+  ): TypedContractEvent<
+    CohortAccessRevokedEvent.InputTuple,
+    CohortAccessRevokedEvent.OutputTuple,
+    CohortAccessRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "ConsentWithdrawn"
+  ): TypedContractEvent<
+    ConsentWithdrawnEvent.InputTuple,
+    ConsentWithdrawnEvent.OutputTuple,
+    ConsentWithdrawnEvent.OutputObject
+  >;
+  getEvent(
+    key: "DecryptionPublished"
+  ): TypedContractEvent<
+    DecryptionPublishedEvent.InputTuple,
+    DecryptionPublishedEvent.OutputTuple,
+    DecryptionPublishedEvent.OutputObject
+  >;
   getEvent(
     key: "DecryptionVerified"
   ): TypedContractEvent<
@@ -412,8 +1427,58 @@ export interface UniversalFHEAdapter extends BaseContract {
     PublicDecryptionVerifiedEvent.OutputTuple,
     PublicDecryptionVerifiedEvent.OutputObject
   >;
+  getEvent(
+    key: "RecordAccessGranted"
+  ): TypedContractEvent<
+    RecordAccessGrantedEvent.InputTuple,
+    RecordAccessGrantedEvent.OutputTuple,
+    RecordAccessGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RecordAccessRevoked"
+  ): TypedContractEvent<
+    RecordAccessRevokedEvent.InputTuple,
+    RecordAccessRevokedEvent.OutputTuple,
+    RecordAccessRevokedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleGranted"
+  ): TypedContractEvent<
+    RoleGrantedEvent.InputTuple,
+    RoleGrantedEvent.OutputTuple,
+    RoleGrantedEvent.OutputObject
+  >;
+  getEvent(
+    key: "RoleRevoked"
+  ): TypedContractEvent<
+    RoleRevokedEvent.InputTuple,
+    RoleRevokedEvent.OutputTuple,
+    RoleRevokedEvent.OutputObject
+  >;
 
   filters: {
+    "AggregatesPublished(uint256)": TypedContractEvent<
+      AggregatesPublishedEvent.InputTuple,
+      AggregatesPublishedEvent.OutputTuple,
+      AggregatesPublishedEvent.OutputObject
+    >;
+    AggregatesPublished: TypedContractEvent<
+      AggregatesPublishedEvent.InputTuple,
+      AggregatesPublishedEvent.OutputTuple,
+      AggregatesPublishedEvent.OutputObject
+    >;
+
+    "BusinessDataAmended(string,address,uint256)": TypedContractEvent<
+      BusinessDataAmendedEvent.InputTuple,
+      BusinessDataAmendedEvent.OutputTuple,
+      BusinessDataAmendedEvent.OutputObject
+    >;
+    BusinessDataAmended: TypedContractEvent<
+      BusinessDataAmendedEvent.InputTuple,
+      BusinessDataAmendedEvent.OutputTuple,
+      BusinessDataAmendedEvent.OutputObject
+    >;
+
     "BusinessDataCreated(string,address)": TypedContractEvent<
       BusinessDataCreatedEvent.InputTuple,
       BusinessDataCreatedEvent.OutputTuple,
@@ -425,6 +1490,61 @@ export interface UniversalFHEAdapter extends BaseContract {
       BusinessDataCreatedEvent.OutputObject
     >;
 
+    "CategoryAggregatesPublished(string,uint256)": TypedContractEvent<
+      CategoryAggregatesPublishedEvent.InputTuple,
+      CategoryAggregatesPublishedEvent.OutputTuple,
+      CategoryAggregatesPublishedEvent.OutputObject
+    >;
+    CategoryAggregatesPublished: TypedContractEvent<
+      CategoryAggregatesPublishedEvent.InputTuple,
+      CategoryAggregatesPublishedEvent.OutputTuple,
+      CategoryAggregatesPublishedEvent.OutputObject
+    >;
+
+    "CohortAccessGranted(string,address,address)": TypedContractEvent<
+      CohortAccessGrantedEvent.InputTuple,
+      CohortAccessGrantedEvent.OutputTuple,
+      CohortAccessGrantedEvent.OutputObject
+    >;
+    CohortAccessGranted: TypedContractEvent<
+      CohortAccessGrantedEvent.InputTuple,
+      CohortAccessGrantedEvent.OutputTuple,
+      CohortAccessGrantedEvent.OutputObject
+    >;
+
+    "CohortAccessRevoked(string,address,address)": TypedContractEvent<
+      CohortAccessRevokedEvent.InputTuple,
+      CohortAccessRevokedEvent.OutputTuple,
+      CohortAccessRevokedEvent.OutputObject
+    >;
+    CohortAccessRevoked: TypedContractEvent<
+      CohortAccessRevokedEvent.InputTuple,
+      CohortAccessRevokedEvent.OutputTuple,
+      CohortAccessRevokedEvent.OutputObject
+    >;
+
+    "ConsentWithdrawn(string,address,uint256)": TypedContractEvent<
+      ConsentWithdrawnEvent.InputTuple,
+      ConsentWithdrawnEvent.OutputTuple,
+      ConsentWithdrawnEvent.OutputObject
+    >;
+    ConsentWithdrawn: TypedContractEvent<
+      ConsentWithdrawnEvent.InputTuple,
+      ConsentWithdrawnEvent.OutputTuple,
+      ConsentWithdrawnEvent.OutputObject
+    >;
+
+    "DecryptionPublished(string)": TypedContractEvent<
+      DecryptionPublishedEvent.InputTuple,
+      DecryptionPublishedEvent.OutputTuple,
+      DecryptionPublishedEvent.OutputObject
+    >;
+    DecryptionPublished: TypedContractEvent<
+      DecryptionPublishedEvent.InputTuple,
+      DecryptionPublishedEvent.OutputTuple,
+      DecryptionPublishedEvent.OutputObject
+    >;
+
     "DecryptionVerified(string,uint32)": TypedContractEvent<
       DecryptionVerifiedEvent.InputTuple,
       DecryptionVerifiedEvent.OutputTuple,
@@ -446,6 +1566,50 @@ export interface UniversalFHEAdapter extends BaseContract {
       PublicDecryptionVerifiedEvent.OutputTuple,
       PublicDecryptionVerifiedEvent.OutputObject
     >;
+
+    "RecordAccessGranted(string,address)": TypedContractEvent<
+      RecordAccessGrantedEvent.InputTuple,
+      RecordAccessGrantedEvent.OutputTuple,
+      RecordAccessGrantedEvent.OutputObject
+    >;
+    RecordAccessGranted: TypedContractEvent<
+      RecordAccessGrantedEvent.InputTuple,
+      RecordAccessGrantedEvent.OutputTuple,
+      RecordAccessGrantedEvent.OutputObject
+    >;
+
+    "RecordAccessRevoked(string,address)": TypedContractEvent<
+      RecordAccessRevokedEvent.InputTuple,
+      RecordAccessRevokedEvent.OutputTuple,
+      RecordAccessRevokedEvent.OutputObject
+    >;
+    RecordAccessRevoked: TypedContractEvent<
+      RecordAccessRevokedEvent.InputTuple,
+      RecordAccessRevokedEvent.OutputTuple,
+      RecordAccessRevokedEvent.OutputObject
+    >;
+
+    "RoleGranted(bytes32,address,address)": TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+    RoleGranted: TypedContractEvent<
+      RoleGrantedEvent.InputTuple,
+      RoleGrantedEvent.OutputTuple,
+      RoleGrantedEvent.OutputObject
+    >;
+
+    "RoleRevoked(bytes32,address,address)": TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
+    RoleRevoked: TypedContractEvent<
+      RoleRevokedEvent.InputTuple,
+      RoleRevokedEvent.OutputTuple,
+      RoleRevokedEvent.OutputObject
+    >;
   };
 }
 
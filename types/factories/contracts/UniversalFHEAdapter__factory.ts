@@ -30,6 +30,44 @@ const _abi = [
     name: "ZamaProtocolUnsupported",
     type: "error",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cohortSize",
+        type: "uint256",
+      },
+    ],
+    name: "AggregatesPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "editor",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+    ],
+    name: "BusinessDataAmended",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -49,6 +87,113 @@ const _abi = [
     name: "BusinessDataCreated",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "cohortSize",
+        type: "uint256",
+      },
+    ],
+    name: "CategoryAggregatesPublished",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+    ],
+    name: "CohortAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+    ],
+    name: "CohortAccessRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+    ],
+    name: "ConsentWithdrawn",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+    ],
+    name: "DecryptionPublished",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -78,104 +223,920 @@ const _abi = [
         type: "bytes32[]",
       },
       {
-        indexed: false,
-        internalType: "bytes",
-        name: "abiEncodedCleartexts",
-        type: "bytes",
+        indexed: false,
+        internalType: "bytes",
+        name: "abiEncodedCleartexts",
+        type: "bytes",
+      },
+    ],
+    name: "PublicDecryptionVerified",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+    ],
+    name: "RecordAccessGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
+    ],
+    name: "RecordAccessRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "AUDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "CLINIC_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "MIN_COHORT_SIZE",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "REGISTRY_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RESEARCHER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+    ],
+    name: "amendBusinessData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "businessData",
+    outputs: [
+      {
+        internalType: "string",
+        name: "pseudonym",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "identityCommitment",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "encryptedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint16",
+        name: "encryptedDiagnosisDelay",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "encryptedSeverity",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "encryptedSex",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "publicValue1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "publicValue2",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint32",
+        name: "decryptedValue",
+        type: "uint32",
+      },
+      {
+        internalType: "bool",
+        name: "isVerified",
+        type: "bool",
+      },
+      {
+        internalType: "bool",
+        name: "isWithdrawn",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "businessIds",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "categories",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "cohortAccess",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "confidentialProtocolId",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "pseudonym",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "identityCommitment",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint32",
+        name: "encryptedValue",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint16",
+        name: "encryptedDiagnosisDelay",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedSeverity",
+        type: "bytes32",
+      },
+      {
+        internalType: "externalEuint8",
+        name: "encryptedSex",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "inputProof",
+        type: "bytes",
+      },
+      {
+        internalType: "uint256",
+        name: "publicValue1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "publicValue2",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+    ],
+    name: "createBusinessData",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllBusinessIds",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getAllCategories",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+    ],
+    name: "getBusinessData",
+    outputs: [
+      {
+        internalType: "string",
+        name: "pseudonym",
+        type: "string",
+      },
+      {
+        internalType: "bytes32",
+        name: "identityCommitment",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "publicValue1",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "publicValue2",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "description",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "timestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "isVerified",
+        type: "bool",
+      },
+      {
+        internalType: "uint32",
+        name: "decryptedValue",
+        type: "uint32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string[]",
+        name: "ids",
+        type: "string[]",
+      },
+    ],
+    name: "getBusinessDataBatch",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "businessId",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "pseudonym",
+            type: "string",
+          },
+          {
+            internalType: "bytes32",
+            name: "identityCommitment",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "publicValue1",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "publicValue2",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "description",
+            type: "string",
+          },
+          {
+            internalType: "address",
+            name: "creator",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "bool",
+            name: "isVerified",
+            type: "bool",
+          },
+          {
+            internalType: "uint32",
+            name: "decryptedValue",
+            type: "uint32",
+          },
+          {
+            internalType: "bool",
+            name: "isWithdrawn",
+            type: "bool",
+          },
+        ],
+        internalType: "struct UniversalFHEAdapter.BusinessDataView[]",
+        name: "items",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+    ],
+    name: "getBusinessDataHistory",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "euint32",
+            name: "encryptedValue",
+            type: "bytes32",
+          },
+          {
+            internalType: "uint256",
+            name: "timestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "editor",
+            type: "address",
+          },
+        ],
+        internalType: "struct UniversalFHEAdapter.BusinessDataVersion[]",
+        name: "",
+        type: "tuple[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
+      },
+    ],
+    name: "getBusinessIdsPage",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "ids",
+        type: "string[]",
+      },
+      {
+        internalType: "uint256",
+        name: "total",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+    ],
+    name: "getCategoryAggregates",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "sum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "count",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+    ],
+    name: "getCohortGrantees",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "creator",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+    ],
+    name: "getCohortSize",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getEncryptedAggregates",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "sum",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "count",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "min",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint32",
+        name: "max",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedFields",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "value",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint16",
+        name: "diagnosisDelay",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "severity",
+        type: "bytes32",
+      },
+      {
+        internalType: "euint8",
+        name: "sex",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+    ],
+    name: "getEncryptedValue",
+    outputs: [
+      {
+        internalType: "euint32",
+        name: "",
+        type: "bytes32",
       },
     ],
-    name: "PublicDecryptionVerified",
-    type: "event",
+    stateMutability: "view",
+    type: "function",
   },
   {
     inputs: [
       {
         internalType: "string",
-        name: "",
+        name: "businessId",
         type: "string",
       },
     ],
-    name: "businessData",
+    name: "getRecordGrantees",
     outputs: [
       {
-        internalType: "string",
-        name: "name",
-        type: "string",
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getWithdrawnBusinessIds",
+    outputs: [
       {
-        internalType: "euint32",
-        name: "encryptedValue",
-        type: "bytes32",
+        internalType: "string[]",
+        name: "",
+        type: "string[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "offset",
+        type: "uint256",
       },
       {
         internalType: "uint256",
-        name: "publicValue1",
+        name: "limit",
         type: "uint256",
       },
+    ],
+    name: "getWithdrawnBusinessIdsPage",
+    outputs: [
+      {
+        internalType: "string[]",
+        name: "ids",
+        type: "string[]",
+      },
       {
         internalType: "uint256",
-        name: "publicValue2",
+        name: "total",
         type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "string",
-        name: "description",
+        name: "category",
         type: "string",
       },
       {
         internalType: "address",
-        name: "creator",
+        name: "researcher",
         type: "address",
       },
       {
         internalType: "uint256",
-        name: "timestamp",
+        name: "offset",
         type: "uint256",
       },
       {
-        internalType: "uint32",
-        name: "decryptedValue",
-        type: "uint32",
-      },
-      {
-        internalType: "bool",
-        name: "isVerified",
-        type: "bool",
+        internalType: "uint256",
+        name: "limit",
+        type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "grantCohortAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    name: "businessIds",
-    outputs: [
       {
         internalType: "string",
-        name: "",
+        name: "businessId",
         type: "string",
       },
+      {
+        internalType: "address",
+        name: "researcher",
+        type: "address",
+      },
     ],
-    stateMutability: "view",
+    name: "grantRecordAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "confidentialProtocolId",
-    outputs: [
+    inputs: [
       {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
       },
     ],
-    stateMutability: "view",
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
@@ -186,106 +1147,132 @@ const _abi = [
         type: "string",
       },
       {
-        internalType: "string",
-        name: "name",
-        type: "string",
-      },
-      {
-        internalType: "externalEuint32",
-        name: "encryptedValue",
-        type: "bytes32",
+        internalType: "address",
+        name: "account",
+        type: "address",
       },
+    ],
+    name: "hasRecordAccess",
+    outputs: [
       {
-        internalType: "bytes",
-        name: "inputProof",
-        type: "bytes",
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "uint256",
-        name: "publicValue1",
-        type: "uint256",
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
       },
       {
-        internalType: "uint256",
-        name: "publicValue2",
-        type: "uint256",
+        internalType: "address",
+        name: "account",
+        type: "address",
       },
+    ],
+    name: "hasRole",
+    outputs: [
       {
-        internalType: "string",
-        name: "description",
-        type: "string",
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
     ],
-    name: "createBusinessData",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [],
-    name: "getAllBusinessIds",
+    name: "isAvailable",
     outputs: [
       {
-        internalType: "string[]",
+        internalType: "bool",
         name: "",
-        type: "string[]",
+        type: "bool",
       },
     ],
-    stateMutability: "view",
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "publishAggregates",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "string",
-        name: "businessId",
+        name: "category",
         type: "string",
       },
     ],
-    name: "getBusinessData",
-    outputs: [
+    name: "publishCategoryAggregates",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "string",
-        name: "name",
+        name: "businessId",
         type: "string",
       },
-      {
-        internalType: "uint256",
-        name: "publicValue1",
-        type: "uint256",
-      },
-      {
-        internalType: "uint256",
-        name: "publicValue2",
-        type: "uint256",
-      },
+    ],
+    name: "publishDecryption",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "string",
-        name: "description",
+        name: "",
         type: "string",
       },
       {
         internalType: "address",
-        name: "creator",
+        name: "",
         type: "address",
       },
-      {
-        internalType: "uint256",
-        name: "timestamp",
-        type: "uint256",
-      },
+    ],
+    name: "recordAccess",
+    outputs: [
       {
         internalType: "bool",
-        name: "isVerified",
+        name: "",
         type: "bool",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
-        internalType: "uint32",
-        name: "decryptedValue",
-        type: "uint32",
+        internalType: "string",
+        name: "category",
+        type: "string",
+      },
+      {
+        internalType: "address",
+        name: "researcher",
+        type: "address",
       },
     ],
-    stateMutability: "view",
+    name: "revokeCohortAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
@@ -295,29 +1282,33 @@ const _abi = [
         name: "businessId",
         type: "string",
       },
-    ],
-    name: "getEncryptedValue",
-    outputs: [
       {
-        internalType: "euint32",
-        name: "",
-        type: "bytes32",
+        internalType: "address",
+        name: "researcher",
+        type: "address",
       },
     ],
-    stateMutability: "view",
+    name: "revokeRecordAccess",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
-    inputs: [],
-    name: "isAvailable",
-    outputs: [
+    inputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
       },
     ],
-    stateMutability: "pure",
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
@@ -343,10 +1334,23 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "businessId",
+        type: "string",
+      },
+    ],
+    name: "withdrawConsent",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ] as const;
 
 const _bytecode =
-  "0x6080604052346200012f576200001462000167565b5046600103620000ee576200002862000167565b506200003362000133565b5f81525f60208201525f60408201525b60018060a01b036040818351169260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497009085825416179055826020820151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190858254161790550151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497029182541617905560405161129d9081620001e78239f35b4662aa36a70362000109576200010362000183565b62000043565b46617a69036200011d576200010362000183565b6040516373cac13b60e01b8152600490fd5b5f80fd5b60405190606082016001600160401b038111838210176200015357604052565b634e487b7160e01b5f52604160045260245ffd5b6200017162000133565b905f82525f60208301525f6040830152565b6200018d62000167565b506200019862000133565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c127602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a60408201529056fe6080806040526004361015610012575f80fd5b5f905f3560e01c9081624ffd2f14610d2b5750806355ad553014610c32578063856c71dd14610c175780638927b03014610bf5578063939aaa7614610b835780639c6f885514610b21578063a14cd45c1461082e578063adb330d11461018c5763e29e7e2414610080575f80fd5b34610189576020366003190112610189576004356001600160401b0381116101855736602382011215610185576020610141926100ca6100de933690602481600401359101611009565b908260405194838680955193849201610e51565b8201908152030190206100f081610f67565b9060ff60018201549160028101549061015e60038201549461011460048401610f67565b60018060a01b036005850154169660076006860154950154956040519a8b9a610120808d528c0190610e72565b9360208b015260408a015260608901528782036080890152610e72565b9360a086015260c085015263ffffffff811660e085015260201c1615156101008301520390f35b5080fd5b80fd5b50346106b35760e03660031901126106b3576004356001600160401b0381116106b3576101bd903690600401610e24565b6024356001600160401b0381116106b3576101dc903690600401610e24565b6064356001600160401b0381116106b3576101fb903690600401610e24565b9060c4356001600160401b0381116106b35761021b903690600401610e24565b91909261023d604051888a82375f898201526020818a81010301902054610ee0565b6107e95761025761024f368385611009565b604435611176565b156107a45761026b9161024f913691611009565b604051946101208601908682106001600160401b0383111761072c576102b795610299926040523691611009565b85526020850152608435604085015260a43560608501523691611009565b60808201523360a08201524260c08201525f60e08201525f610100820152604051828482376020818481015f8152030190209080518051906001600160401b03821161072c576103118261030b8654610ee0565b866110c5565b602090601f83116001146107405761034092915f91836106b7575b50508160011b915f199060031b1c19161790565b82555b60208101516001830155604081015160028301556060810151600383015560808101518051906001600160401b03821161072c57610391826103886004870154610ee0565b600487016110c5565b602090601f83116001146106c2576103bf92915f91836106b75750508160011b915f199060031b1c19161790565b60048301555b6007600583019260018060a01b03938460a0850151166bffffffffffffffffffffffff60a01b82541617905560c08301516006820155019063ffffffff60e08201511664ff000000006101008454930151151560201b169164ffffffffff1916171790556001604051838582376020818581015f8152030190200154907f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497009181835416803b156106b357604051635ca4b5b160e11b815260048101929092523060248301525f908290604490829084905af180156106a857610693575b5090849160016040518587823760208187810187815203019020015491604051926104cc84610f2b565b60018452602036818601376104e0846110b8565b525416803b1561068457604051637d6e912360e11b8152602060048201529183918391829084908290610517906024830190611143565b03925af1801561068857610670575b5050600154680100000000000000008110156106485780600161054c9201600155610e97565b61065c576001600160401b038211610648576105728261056c8354610ee0565b836110c5565b8382601f81116001146105e6578061059e9287916105db575b508160011b915f199060031b1c19161790565b90555b806040519283378101905f82528033920390207f18084c0d01598eaa54d6c13f683cb03a229998bbebeef621fa82b9ae77346c908380a380f35b90508501355f61058b565b50818552602085209083601f198116875b81811061062d575010610614575b5050600182811b0190556105a1565b8401355f19600385901b60f8161c191690555f80610605565b878401358555600190940193602093840193879350016105f7565b634e487b7160e01b84526041600452602484fd5b634e487b7160e01b84526004849052602484fd5b61067990610f18565b61068457825f610526565b8280fd5b6040513d84823e3d90fd5b61069f91929550610f18565b5f93905f6104a2565b6040513d5f823e3d90fd5b5f80fd5b015190505f8061032c565b90601f19831691600486015f5260205f20925f5b81811061071457509084600195949392106106fc575b505050811b0160048301556103c5565b01515f1960f88460031b161c191690555f80806106ec565b929360206001819287860151815501950193016106d6565b634e487b7160e01b5f52604160045260245ffd5b90601f19831691855f5260205f20925f5b81811061078c5750908460019594939210610774575b505050811b018255610343565b01515f1960f88460031b161c191690555f8080610767565b92936020600181928786015181550195019301610751565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c696420656e6372797074656420696e7075740000000000000000006044820152606490fd5b60405162461bcd60e51b815260206004820152601c60248201527f427573696e657373206461746120616c726561647920657869737473000000006044820152606490fd5b346106b3576003196060368201126106b3576001600160401b036004358181116106b357610860903690600401610e24565b9290916024358181116106b35761087b90369060040161104e565b906044359081116106b35761089490369060040161104e565b60405192858585376108bf6108b8858881015f815260209788910301902054610ee0565b151561106c565b60ff60076040518888823786818a81015f8152030190200154851c16610ae4578361099191604051936108f185610f2b565b6001855282368187013760016040518a8a823784818c81015f815203019020015461091b866110b8565b5260018060a01b037f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416905f6040518096819582946378542ead60e01b845260606004850152610982610972606486018d611143565b838682030160248701528d610e72565b91848303016044850152610e72565b03925af19081156106a8575f91610aae575b5015610a9c576109e57fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a0916109f2604051928392604084526040840190611143565b8281038784015285610e72565b0390a181818051810103126106b3578101519263ffffffff84168094036106b3577fca2f7a1fbd37914cee526f7eca6d88e8cc97492eb9f2d9ab29f37561774b57cb9260076040518383823784818581015f815203019020018563ffffffff1982541617905560076040518383823784818581015f8152030190200164010000000064ff000000001982541617905581604051928392833781015f815203902092604051908152a2005b60405163cf6c44e960e01b8152600490fd5b90508381813d8311610add575b610ac58183610f46565b810103126106b3575180151581036106b357866109a3565b503d610abb565b60405162461bcd60e51b815260048101859052601560248201527411185d1848185b1c9958591e481d995c9a599a5959605a1b6044820152606490fd5b346106b35760203660031901126106b3576004356001548110156106b357610b4890610e97565b610b7057610b58610b6c91610f67565b604051918291602083526020830190610e72565b0390f35b634e487b7160e01b5f525f60045260245ffd5b346106b35760203660031901126106b3576004356001600160401b0381116106b35760016020610bb881933690600401610e24565b9190610bd96108b86040518584823784818781015f81520301902054610ee0565b82604051938492833781015f8152030190200154604051908152f35b346106b3575f3660031901126106b3576020610c0f611114565b604051908152f35b346106b3575f3660031901126106b357602060405160018152f35b346106b3575f3660031901126106b357600180546001600160401b03811161072c579060209060405191610c6b818560051b0184610f46565b838352808301938460015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf65f915b838310610d025750505050604051928184019082855251809152604084019160408260051b86010195925f905b838210610cd55786880387f35b90919293948380610cf1839a603f198b82030186528951610e72565b999701959493919091019101610cc8565b90858086819a989594610d17859b999b610f67565b815201920192019250969496959395610c9b565b346106b35760203660031901126106b357600435906001600160401b0382116106b35760206108b891610d81610d68610de9953690600401610e24565b9490928584823784818781015f81520301902054610ee0565b82604051938492833781015f815203019020600281015463ffffffff600383015460018060a01b0360058501541692610e01600686015491600787015493610dd46004610dcd8a610f67565b9901610f67565b90604051998a99610100808c528b0190610e72565b9260208a015260408901528782036060890152610e72565b93608086015260a085015260ff8160201c16151560c08501521660e08301520390f35b9181601f840112156106b3578235916001600160401b0383116106b357602083818601950101116106b357565b5f5b838110610e625750505f910152565b8181015183820152602001610e53565b90602091610e8b81518092818552858086019101610e51565b601f01601f1916010190565b600154811015610ecc5760015f527fb10e2d527612073b26eecdfd717e6a320cf44b4afac2b0732d9fcbe2b7fa0cf601905f90565b634e487b7160e01b5f52603260045260245ffd5b90600182811c92168015610f0e575b6020831014610efa57565b634e487b7160e01b5f52602260045260245ffd5b91607f1691610eef565b6001600160401b03811161072c57604052565b604081019081106001600160401b0382111761072c57604052565b90601f801991011681019081106001600160401b0382111761072c57604052565b9060405191825f8254610f7981610ee0565b908184526020946001916001811690815f14610fe75750600114610fa9575b505050610fa792500383610f46565b565b5f90815285812095935091905b818310610fcf575050610fa793508201015f8080610f98565b85548884018501529485019487945091830191610fb6565b92505050610fa794925060ff191682840152151560051b8201015f8080610f98565b9291926001600160401b03821161072c5760405191611032601f8201601f191660200184610f46565b8294818452818301116106b3578281602093845f960137010152565b9080601f830112156106b35781602061106993359101611009565b90565b1561107357565b60405162461bcd60e51b815260206004820152601c60248201527f427573696e657373206461746120646f6573206e6f74206578697374000000006044820152606490fd5b805115610ecc5760200190565b601f82116110d257505050565b5f5260205f20906020601f840160051c8301931061110a575b601f0160051c01905b8181106110ff575050565b5f81556001016110f4565b90915081906110eb565b4660010361112157600190565b4662aa36a7036111315761271190565b617a69461461113e575f90565b5f1990565b9081518082526020808093019301915f5b828110611162575050505090565b835185529381019392810192600101611154565b60206111d99260018060a01b0392837f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497015416905f60405180978195829463045fc19560e11b84526004840152336024840152608060448401526084830190610e72565b6004606483015203925af19182156106a8575f9261125c575b507f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497005416803b156106b357604051630f8e573b60e21b815260048101839052336024820152905f908290604490829084905af180156106a857611253575090565b61106990610f18565b9091506020813d602011611288575b8161127860209383610f46565b810103126106b35751905f6111f2565b3d915061126b56fea164736f6c6343000818000a";
+  "0x6040608081523462000241576200001562000279565b504660010362000152576200002962000279565b506200003462000245565b5f81525f60208201525f828201525b60018060a01b0382818351169260018060a01b0319937f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497009085825416179055826020820151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e464970190858254161790550151167f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e4649702918254161790557fbb28eb1a0cfabcecf96003fab466159bc2e051e49d79baf049890044e9072440805f525f602052815f20335f52602052815f20600160ff19825416179055339033907f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a451614cb19081620002968239f35b4662aa36a703620001c2576200016762000279565b506200017262000245565b73f0ffdc93b7e186bc2f8cb3daa75d86d1930a433d81527392c920834ec8941d2c77d188936e1f7a6f49c127602082015273be0e383937d564d7ff0bc3b46c51f0bf8d5c311a8282015262000043565b46617a69036200023157620001d662000279565b50620001e162000245565b7350157cffd6bbfa2dece204a89ec419c23ef5755d815273e3a9105a3a932253a70f126eb1e3b589c643dd24602082015273901f8942346f7ab3a01f6d7613119bca447bb0308282015262000043565b516373cac13b60e01b8152600490fd5b5f80fd5b60405190606082016001600160401b038111838210176200026557604052565b634e487b7160e01b5f52604160045260245ffd5b6200028362000245565b905f82525f60208301525f604083015256fe6080806040526004361015610012575f80fd5b5f905f3560e01c9081624ffd2f1461386f575080630bffa9e4146135955780630dd949ac1461355b5780632d557aca1461350b5780632f244a62146134d25780632f2ff15d1461339457806339b223c1146133175780634e3e489e1461270057806350f2aab3146126c657806355ad5530146126315780635defa0a114612617578063629c25861461234057806362eb50d0146123245780636e1d616e146122e95780638104d1bc146122b057806382673e7714612275578063856c71dd146122595780638811d426146122355780638927b0301461221257806391d14854146121c9578063939aaa761461214757806393fbb5071461202f578063947ef9e414611e5b578063996979a914611c2c5780639a4ee13614611b7b5780639c6f885514611b43578063a14cd45c14611790578063a4f76774146116fd578063a6dad53a1461165d578063a88e9699146114c4578063b32cd8991461141b578063ba68c21d14610e04578063bddbc15214610d84578063bf584c4b14610d49578063c6cdbe5e14610cf6578063d2244b2d14610c83578063d547741f14610b22578063d980200314610722578063dadd0a571461069e578063e29e7e2414610565578063e46a486b1461033c5763f3632d49146101eb575f80fd5b3461033957602080600319360112610335576004356001600160401b0381116103315761021d8391369060040161397c565b91604051928083853760018482018181528590038601909420600901546001600160a01b03949386916102539087161515613d9b565b826040519384928337810160118152030190209384549061027382613de7565b916102816040519384613af1565b8083528183018097855282852085915b8383106102ed5750505050604051948186019282875251809352604086019693905b8382106102c05786880387f35b84518051895283810151848a015260409081015182169089015260609097019693820193908501906102b3565b96600385829b996040999798995161030481613aa8565b8554815284860154838201528c600287015416604082015281520192019201919098969895949395610291565b8280fd5b5080fd5b80fd5b5034610339576080366003190112610339576004356001600160401b0381116103355761036d90369060040161397c565b906103766139ef565b91604435606435937f1976159518e32c975351d3eb18509d62ab7629098636e52c6ce63466e939167f865260209086825260408720335f52825260ff916103c360ff60405f205416613e60565b7f7765bfe615aab9fb9a16bd4c5c9b353f39dae79ca7da86094b0a74ea8a89e59a8852878152604088209660018060a01b03831697885f52825261040d60ff60405f205416614337565b3389526014825261042260408a208789613d82565b885f52825260ff60405f20541615610519575b3389526010825261044a60408a208789613d82565b90815490818710801590610507575b156104f65750945b8581106104a857505050505050806040519283378101905f82528033920390207fe531f70463ede005499ce8eabe6a46051f1ae58471e6a429d72e51d034cd7f388480a480f35b806104c6846104b960019486613c93565b50604051928380926140cd565b858152030190208587600b83015460281c16156104e6575b505001610461565b6104ef916144ef565b5f856104de565b6105019150866143d2565b94610461565b5061051287836143b1565b8111610459565b3389526014825261052e60408a208789613d82565b885f52825260405f20600160ff19825416179055338952601582526105608361055b60408c20898b613d82565b614376565b610435565b503461033957602036600319011261033957600435906001600160401b0382116103395750610598903690600401613b57565b60405181818093516020819301916105af926139a9565b8101600181520360200190206105c481613ce0565b60018201546002830154926003810154906004810154926005820154906006830154600784015490600885016105f990613ce0565b93600160a01b6001900360098701541697600a87015496600b0154976040519b8c9b8c6101c08091528d0161062d916139ca565b9660208d015260408c015260608b015260808a015260a089015260c088015260e0870152858103610100870152610663916139ca565b9261012085015261014084015263ffffffff81166101608401528060201c60ff16151561018084015260281c60ff1615156101a08301520390f35b5034610339578060031936011261033957600f546106bb81613de7565b906106c96040519283613af1565b808252600f83525f80516020614c858339815191529260208084015b838310610706576040516020808252819061070290820188613b75565b0390f35b600182819261071489613ce0565b8152019601920191946106e5565b5034610339576060366003190112610339576001600160401b036004358181116103315761075490369060040161397c565b9091604435908111610b1e5761076e90369060040161397c565b6040519291828585378284019160019182845260018060a01b03926107a4846009896020809b819a030190200154161515613d9b565b6107c7846009604051898c823788818b810187815203019020015416331461422f565b8860405194878a87376107f260ff600b8a890198868a528a81849b03019020015460281c161561426a565b604051888b823787818a8101868152030190209361082361081b60028701928354983691613b12565b6024356146f2565b9661082f881515613e9b565b878255600b8601805464ffffffffff1916905561084c30896148a5565b8154610860600988019185835416906148a5565b8c868c604051818482378d8183810160138152030190209288925b610a8b575b5050505083815416855260158a52856108a16008604088209901988961414d565b9580915b610a09575b505050505050505090600561094861093461099396610960956108d7866108d28a88546148f9565b614ab4565b85556108e5886007546149ac565b6007556108f488600854614a30565b600855610902600d546143df565b600d556109103086546148a5565b61091c306007546148a5565b610928306008546148a5565b604051928380926140cd565b600e815203019020926108d28685546148f9565b918281550161095781546143df565b905530906148a5565b60405183868237848185810160118152030190206040519161098183613aa8565b8252428583015233604083015261402f565b604051818482378281838101601181520301902054925f1984019384116109f557907f9dd5cd272e99462f6ef0df4ba7c649019ce0eeb309ada23125211530e9b3c51c9181604051928392833781015f8152039020916040519384523393a380f35b634e487b7160e01b85526011600452602485fd5b8654821015610a8657908588999a9b9c610a3160408b9584885416815260148452208d61414d565b90610a3c848b613c93565b939054600394851b1c165f52528460405f205416610a62575b50018e8d9b9a99986108a5565b610a809087875491610a74858c613c93565b9054911b1c16906148a5565b5f610a55565b6108aa565b8394988a9b9c9d9e939454851015610b1057509181818b9798999a9b95948b9460405193849283378101601281520301902090610ac88487613c93565b939054600394851b1c165f52528560405f205416610af8575b5001908c9a99989796918f969594938f8e9161087b565b610b0a9088885491610a748588613c93565b5f610ae1565b989450829d9c9b9a50610880565b8380fd5b503461033957604036600319011261033957600435610b3f6139ef565b7fbb28eb1a0cfabcecf96003fab466159bc2e051e49d79baf049890044e907244080845260209084825260408520335f528252610b8260ff60405f205416613e60565b83855284825260408086206001600160a01b039094165f81815294845293205460ff1615610c4b578314801590610c41575b15610bfd57825f525f815260405f2090825f525260405f2060ff19815416905533917ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b5f80a480f35b6064906040519062461bcd60e51b82526004820152601c60248201527f43616e6e6f74207265766f6b65206f776e2061646d696e20726f6c65000000006044820152fd5b5033821415610bb4565b60405162461bcd60e51b815260048101839052601060248201526f149bdb19481b9bdd0819dc985b9d195960821b6044820152606490fd5b503461033957602036600319011261033957600435906001600160401b03821161033957610702610cea610cba366004860161397c565b602060405182848237818184810160138152030190209282604051938492833781016012815203019020906143ed565b60405191829182613a48565b50346103395760203660031901126103395760043590600f5482101561033957610702610d3583600f5f525f80516020614c8583398151915201613ce0565b6040519182916020835260208301906139ca565b503461033957806003193601126103395760206040517fbb28eb1a0cfabcecf96003fab466159bc2e051e49d79baf049890044e90724408152f35b503461033957602036600319011261033957600435906001600160401b0382116103395760406020610db9366004860161397c565b9190610ddc60018551858482378481878101600e815203019020015415156142eb565b82845193849283378101600e8152030190206003600282015491015482519182526020820152f35b5034610339576020366003190112610339576004356001600160401b03811161033557610e3590369060040161397c565b91610e646040518484823760018186019081528190036020019020600901546001600160a01b03161515613d9b565b610e93604051848482376001858201908152602090829003019020600901546001600160a01b0316331461422f565b610ebb60ff600b604051868682376020818881016001815203019020015460281c161561426a565b604051838382376020818581016001815203019020916002830154610ee281600554614ab4565b6005556006548015611408575b610ef890614be7565b600655610f06600d546143df565b600d55610f1660055430906148a5565b610f22306006546148a5565b610f48604051602081610f388160088a016140cd565b600e815203019020918254614ab4565b8155600181015480156113f5575b610f5f90614be7565b6001820155600481015480156113e15790610fa2915f1901600482015560058101610f8a81546143df565b9055610f973082546148a5565b6001309101546148a5565b604051848282376003858201526020818681010301902054600254808203611363575b5050600254801561134f57610fdc5f198201613c29565b61133b5780610fec859254613ca8565b806112fc575b5050505f19016002555f6040518583823760208187810160038152030190205560405184828237602081868101601381520301902091805b835481101561107a576001906040518785823760208189810160128152030190206110558287613c93565b848060a01b0391549060031b1c165f5260205260405f2060ff1981541690550161102a565b50848282866040518484823760208186810160138152030190208054838255806112e2575b505060405184848237602081868101601181520301902080549083815581611285575b5050806110da6110d460059354613ca8565b82613efd565b5f81558260018201556110fc6110f36008830154613ca8565b60088301613efd565b5f6008820155826006820155826007820155600b81016501000000000065ffffffffffff198254161790558260028201558260038201558260048201550155600454600160401b81101561125e5780600161115a9201600455613c5e565b611272576001600160401b03831161125e576111808361117a8354613ca8565b83613f23565b5f83601f81116001146111fb57806111ac925f916111f0575b508160011b915f199060031b1c19161790565b90555b81604051928392833781015f8152039020604051904282527f0216e0449695288a0f862f9b92918a1997b8da711d3913867e951bb2f6bd40d560203393a380f35b905084013587611199565b50601f19841690825f528460205f20925f5b81811061124357501061122a575b5050600183811b0190556111af565b8301355f19600386901b60f8161c19169055848061121b565b8684013585556001909401936020938401938893500161120d565b634e487b7160e01b5f52604160045260245ffd5b634e487b7160e01b5f525f60045260245ffd5b9091925060038281020482036112ce5790859291835260208320805b82600302820181106112b357506110c2565b5f8082556001820155600281018890558794506003016112a1565b634e487b7160e01b86526011600452602486fd5b6112f59184526020842090810190613ee7565b858061109f565b601f811160011461131557505f9150555b825f80610ff2565b90805f918452611334601f60208620940160051c840160018501613ee7565b555561130d565b634e487b7160e01b84526004849052602484fd5b634e487b7160e01b83526031600452602483fd5b5f1981019081116113e15761137a61138091613c29565b50613ce0565b5f1982018281116109f55761139490613c29565b6113cd57816113a86113bb93602093613f66565b81604051938285809451938492016139a9565b81016003815203019020555f80610fc5565b634e487b7160e01b85526004859052602485fd5b634e487b7160e01b84526011600452602484fd5b50610f5f611401614b38565b9050610f56565b50610ef8611414614b38565b9050610eef565b50346103395761142a36613be7565b91903384526014602052611442604085208284613d82565b9260018060a01b031692835f5260205261146260ff60405f2054166142aa565b3384526014602052611478604085208284613d82565b835f5260205260405f2060ff198154169055806040519283378101905f82528033920390207f660c7e693c3c96dc9399358f4aa8948c35d2c8598afc94c82c390f1f0ac4053f8480a480f35b5034610339576114d336613be7565b916115db604051938383863760018486019081528590036020908101909520600901546001600160a01b03959061150d9087161515613d9b565b6115318660096040518888823784818a81016001815203019020015416331461422f565b61155860ff600b6040518888823784818a81016001815203019020015460281c161561426a565b7f7765bfe615aab9fb9a16bd4c5c9b353f39dae79ca7da86094b0a74ea8a89e59a87528681526040872095821695865f52815261159b60ff60405f205416614337565b6040518585823781818781016012815203019020865f52815260ff60405f20541615611613575b60405190858583378186810160018152030190206144ef565b81604051928392833781015f81520390207f2bab5c21e6446d7f46480abf16da740a983a9101561c947eea70e3f3a6c78f1d8380a380f35b6040518585823781818781016012815203019020865f52815260405f20600160ff19825416179055611658826040518787823783818981016013815203019020614376565b6115c2565b5034610339576060366003190112610339576001600160a01b039060043582811691908290036116f9576024356001600160401b038111610335576116a6903690600401613b57565b6044359384168094036116f9576040826116d69460209452601484522082604051948386809551938492016139a9565b820190815203019020905f52602052602060ff60405f2054166040519015158152f35b5f80fd5b503461033957806003193601126103395760045461171a81613de7565b906117286040519283613af1565b808252600483527f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b9260208084015b838310611774576040516020808252819061070290820188613b75565b600182819261178289613ce0565b815201960192019194611757565b5034610339576060366003190112610339576001600160401b03600435818111610331576117c290369060040161397c565b9091602435818111611b3f576117dc903690600401613b57565b90604435908111611b3f576117f5903690600401613b57565b604051908385833761182484830160018152600984602060018060a01b03968794030190200154161515613d9b565b81600960405186888237602081888101600181520301902001541633148015611afb575b61185190613e60565b61187960ff600b604051878982376020818981016001815203019020015460281c161561426a565b60ff600b604051868882376020818881016001815203019020015460201c16611abe57602061194e8792604051946118b086613ad6565b600186528336818801376002604051898b823785818b8101600181520301902001546118db87613e3f565b527f9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497025416906040519485809481936378542ead60e01b83526060600484015261193c61192a606485018c6146bf565b8481036003190160248601528c6139ca565b838103600319016044850152906139ca565b03925af1908115611ab3578691611a74575b5015611a62576119a27fc6366bab028b8d033cb362cfd1f2f3457ef4e92fc738b6788b90d5a7846367a0916119b06040519283926040845260408401906146bf565b8281036020840152856139ca565b0390a1602081805181010312610b1e57602001519163ffffffff8316809303610b1e577fca2f7a1fbd37914cee526f7eca6d88e8cc97492eb9f2d9ab29f37561774b57cb91602091600b6040518383823784818581016001815203019020018563ffffffff19825416179055600b60405183838237848185810160018152030190200164010000000064ff000000001982541617905581604051928392833781015f815203902092604051908152a280f35b60405163cf6c44e960e01b8152600490fd5b90506020813d602011611aab575b81611a8f60209383613af1565b81010312611aa757518015158103611aa7575f611960565b8580fd5b3d9150611a82565b6040513d88823e3d90fd5b60405162461bcd60e51b815260206004820152601560248201527411185d1848185b1c9958591e481d995c9a599a5959605a1b6044820152606490fd5b507f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f586528560205260408620335f5260205261185160ff60405f2054169050611848565b8480fd5b50346103395760203660031901126103395760043560025481101561033557611b6b90613c29565b61127257610d3561070291613ce0565b503461033957602036600319011261033957600435906001600160401b038211610339576020611bae366004850161397c565b9190611bdd60405184838237600181860190815281900384019020600901546001600160a01b03161515613d9b565b8260405193849283378101600181520301902060028101546107026003830154926005600482015491015490604051948594859094939260609260808301968352602083015260408201520152565b503461033957602080600319360112610335576004356001600160401b03811161033157611c5e90369060040161397c565b90917fbb28eb1a0cfabcecf96003fab466159bc2e051e49d79baf049890044e9072440845283815260408420335f528152611c9f60ff60405f205416613e60565b604051828482378181848101600e81520301902091846001840154611cc58115156142eb565b600485019460058654101580611e4d575b611cdf9061408e565b82600582549283600282015560038101948555015560405190611d0182613ad6565b60018252853681840137611d1482613e3f565b525f80516020614c65833981519152805490926001600160a01b0391821692833b15611aa75785611d6689958293604051948580948193637d6e912360e11b9b8c8452600484015260248301906146bf565b03925af1908115611ab3578691611e39575b5050549260405193611d8985613ad6565b60018552873681870137611d9c85613e3f565b52541691823b15610b1e57611dc99284928360405180968195829483528b600484015260248301906146bf565b03925af18015611e2e57611e1a575b50507fc1eefcc9616e683e60d852aafa79f71d73b14e79d81dd127212736411e9cb74792549381604051928392833781015f815203902092604051908152a280f35b611e2390613ac3565b611b3f57845f611dd8565b6040513d84823e3d90fd5b611e4290613ac3565b611b3f57845f611d78565b506005818101541015611cd6565b5034610339578060208060031936011261202c576004356001600160401b03811161202857611e8e90369060040161397c565b9290916040519084848337611ebf858301600181526009848460018060a01b03968794030190200154161515613d9b565b816009604051878782378381898101600181520301902001541633148015611fea575b611eeb90613e60565b611f1260ff600b6040518888823784818a81016001815203019020015460281c161561426a565b6002604051868682378281888101600181520301902001549160405192611f3884613ad6565b60018452823681860137611f4b84613e3f565b525f80516020614c65833981519152541691823b15610b1e57611f8d92849283604051809681958294637d6e912360e11b8452600484015260248301906146bf565b03925af18015611e2e57611fd6575b505081604051928392833781015f81520390207f83242fc3cd7f0e707eac2e5df2fa25074847ccc70a923128463a0037e19b00868280a280f35b611fdf90613ac3565b61033157825f611f9c565b507f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f583528281526040808420335f908152908352205460ff16611ee2565b5050fd5b50fd5b50346103395761203e36613be7565b916040518282823760018382019081528190036020908101909120600901546001600160a01b03906120739082161515613d9b565b6120978160096040518787823785818981016001815203019020015416331461422f565b6120be60ff600b6040518787823785818981016001815203019020015460281c161561426a565b6040518484823782818681016012815203019020941693845f5281526120ea60ff60405f2054166142aa565b604051838382378181858101601281520301902090845f525260405f2060ff19815416905581604051928392833781015f81520390207f12bfcbcbea19bd8a22b70492ef3a771ea20522c7deee11d9720a1772bede494e8380a380f35b503461033957602036600319011261033957600435906001600160401b03821161033957602060028161217d366004870161397c565b91906121ac60405184838237600181860190815281900384019020600901546001600160a01b03161515613d9b565b826040519384928337810160018152030190200154604051908152f35b50346103395760403660031901126103395760406121e56139ef565b91600435815280602052209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b5034610339578060031936011261033957602061222d614690565b604051908152f35b503461033957602061224f61224936613be7565b9161416a565b6040519015158152f35b5034610339578060031936011261033957602060405160018152f35b503461033957806003193601126103395760206040517f1976159518e32c975351d3eb18509d62ab7629098636e52c6ce63466e939167f8152f35b5034610339576122df6122cb6122c536613bd1565b9061462e565b604051928392604084526040840190613b75565b9060208301520390f35b503461033957806003193601126103395760206040517f59a1c48e5837ad7a7f3dcedcbe129bf3249ec4fbf651fd4f5e2600ead39fe2f58152f35b5034610339578060031936011261033957602060405160058152f35b50346116f9575f3660031901126116f957335f9081527f83cab6d7cca1d18cc7de94a8ca8455ea26ea82b1fedd1b586dedde3a5e0e2b00602090815260409091205461238e9060ff16613e60565b600560025410158061260a575b6123a49061408e565b60055480600955600654600a55600754600b55600854600c555f600d55604051906123ce82613ad6565b600182528236818401376123e182613e3f565b525f80516020614c6583398151915280549091906001600160a01b03908116803b156116f9575f604051809281838161242f637d6e912360e11b998a83528c600484015260248301906146bf565b03925af180156125ff576125e8575b5090849291600a546040519061245382613ad6565b6001825286368184013761246682613e3f565b5281845416803b15611aa75761249686929183926040519485809481938a83528d600484015260248301906146bf565b03925af19081156125c95785916125d4575b5050600b54604051906124ba82613ad6565b600182528636818401376124cd82613e3f565b5281845416803b15611aa7576124fd86929183926040519485809481938a83528d600484015260248301906146bf565b03925af19081156125c95785916125b5575b5050600c54926040519361252285613ad6565b6001855286368187013761253585613e3f565b52541691823b15610b1e576125629284928360405180968195829483528a600484015260248301906146bf565b03925af18015611e2e576125a1575b507f0bebbb0daf080b61a8fa20e0f79cb699bb96804ce54c3b029f7fb6fd9bf74c1982600254604051908152a180f35b6125aa90613ac3565b61033557815f612571565b6125be90613ac3565b610b1e57835f61250f565b6040513d87823e3d90fd5b6125dd90613ac3565b610b1e57835f6124a8565b6125f59193929550613ac3565b5f9390915f61243e565b6040513d5f823e3d90fd5b50600d546005111561239b565b346116f9576122df6122cb61262b36613bd1565b90614592565b346116f9575f3660031901126116f95760025461264d81613de7565b61265a6040519182613af1565b8181526020916020820160025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace935f915b8383106126aa576040516020808252819061070290820188613b75565b60018281926126b889613ce0565b81520196019201919461268d565b346116f9575f3660031901126116f95760206040517f7765bfe615aab9fb9a16bd4c5c9b353f39dae79ca7da86094b0a74ea8a89e59a8152f35b346116f9576101603660031901126116f9576004356001600160401b0381116116f95761273190369060040161397c565b906024356001600160401b0381116116f95761275190369060040161397c565b9160e4356001600160401b0381116116f95761277190369060040161397c565b929093610144356001600160401b0381116116f95761279490369060040161397c565b335f9081527f09064bfb5238df1613c7f091818fc5b15aaa6da0b0ab12b6b1b7d394f97577cb602052604090205491969095916127d39060ff16613e60565b604051888682376001818a019081528190036020019020600901546001600160a01b03166132d25782156132985760443515613253575f9061282b61282461281c368685613b12565b6064356146f2565b1515613e9b565b61283961281c368584613b12565b90602061289461284a368785613b12565b60018060a01b035f80516020614c4583398151915254169060405196878094819363045fc19560e11b835260843560048401523360248401526080604484015260848301906139ca565b6003606483015203925af19283156125ff575f9361321f575b505f80516020614c65833981519152546001600160a01b031690813b156116f957604051630f8e573b60e21b815260048101859052336024820152915f908390604490829084905af19081156125ff576129319261292992613210575b50612921612919368884613b12565b60a4356147f0565b953691613b12565b60c4356147f0565b9360405195866101c08101106001600160401b036101c08901111761125e57612963916101c088016040523691613b12565b8552604435602086015260408501526060840152608083015260a08201526101043560c08201526101243560e082015261299e368486613b12565b61010082015233610120820152426101408201525f6101608201525f6101808201525f6101a0820152600b604051868482376020818881016001815203019020916129ea815184613f66565b6020810151600184015560408101516002840155606081015160038401556080810151600484015560a0810151600584015560c0810151600684015560e08101516007840155612a4261010082015160088501613f66565b6009830160018060a01b03610120830151166bffffffffffffffffffffffff60a01b825416179055610140810151600a84015563ffffffff6101608201511690828401549165ff00000000006101a064ff00000000610180850151151560201b16930151151560281b169265ffffffffffff1916171717910155612adf6002604051868482376020818881016001815203019020015430906148a5565b612b03604051858382376003868201916001835260208130940301902001546148a5565b612b27604051858382376004868201916001835260208130940301902001546148a5565b612b4b604051858382376005868201916001835260208130940301902001546148a5565b612b6b6040518583823785810190600182526020813393030190206144ef565b6040518482823760208186810160018152030190209360018060a01b036009860154165f526015602052612ba560405f206008870161414d565b925f5b8454811015612c2d57600190818060a01b036009890154165f526014602052612bd760405f2060088a0161414d565b612be18288613c93565b848060a01b0391549060031b1c165f5260205260ff60405f205416612c07575b01612ba8565b612c28612c148288613c93565b848060a01b0391549060031b1c16896144ef565b612c01565b5084600260405184868237602081868101600181520301902001546006541561315e575b80612c61612c91926005546148f9565b600555600654801561314b575b612c7790614b8a565b600655612c86816007546149ac565b600755600854614a30565b600855612c9f600d546143df565b600d55612cae306005546148a5565b612cba306006546148a5565b612cc6306007546148a5565b612cd2306008546148a5565b6002604051848682376020818681016001815203019020015460405183838237602081858101600e81520301902090600182015415612fd6575b90612d1b612d559282546148f9565b815560018101548015612fc3575b612d3290614b8a565b600182015560048101612d4581546143df565b905560058101610f8a81546143df565b600254600160401b81101561125e57806001612d749201600255613c29565b929092611272576001600160401b03841161125e57612d9d84612d978554613ca8565b85613f23565b5f9284601f8111600114612f5c5780612dcd91612dfb965f91612f5157508160011b915f199060031b1c19161790565b90555b60025460405185878237602081878101600381520301902055335f52601060205260405f2091613d82565b8054600160401b81101561125e57612e1891600182018155613c93565b61127257612e2a8261117a8354613ca8565b5f82601f8111600114612eee5780612e55925f91612ee357508160011b915f199060031b1c19161790565b90555b612eaa604051828482376020818481016011815203019020600260405184868237602081868101600181520301902001549060405191612e9783613aa8565b825242602083015233604083015261402f565b806040519283378101905f82528033920390207f18084c0d01598eaa54d6c13f683cb03a229998bbebeef621fa82b9ae77346c905f80a3005b905085013586611199565b50601f19831690825f528360205f20925f5b818110612f36575010612f1d575b5050600182811b019055612e58565b8401355f19600385901b60f8161c191690558380612f0e565b87840135855560019094019360209384019387935001612f00565b905088013589611199565b50805f5260205f205f945b601f1987168610612fab57612dfb955086601f19811610612f92575b5050600185811b019055612dd0565b8701355f19600388901b60f8161c191690558680612f83565b87810135825560209586019560019092019101612f67565b50612d32612fcf614b38565b9050612d29565b612fde614b38565b8255612fe8614b38565b6001830155600f54600160401b81101561125e576001810180600f5581101561313757600f5f526001600160401b03851161125e5761304f8561303a835f80516020614c858339815191520154613ca8565b835f80516020614c8583398151915201613f23565b845f601f82116001146130aa579161308482612d55969593612d1b955f9161309f57508160011b915f199060031b1c19161790565b905f80516020614c8583398151915201555b91925050612d0c565b90508801358c611199565b9050815f80516020614c85833981519152015f5260205f20905f5b601f198816811061311f575091612d55949391612d1b9388601f19811610613106575b5050600187811b01905f80516020614c858339815191520155613096565b8701355f1960038a901b60f8161c1916905589806130e8565b9091602060018192858a0135815501930191016130c5565b634e487b7160e01b5f52603260045260245ffd5b50612c77613157614b38565b9050612c6e565b5f90613168614b38565b600555613173614b38565b600655602060018060a01b035f80516020614c458339815191525416604460405180958193639cd07acb60e01b835263ffffffff6004840152600460248401525af180156125ff575f906131dc575b612c9192506007556131d2614b38565b6008559050612c51565b506020823d602011613208575b816131f660209383613af1565b810103126116f957612c9191516131c2565b3d91506131e9565b61321990613ac3565b8c61290a565b9092506020813d60201161324b575b8161323b60209383613af1565b810103126116f95751918a6128ad565b3d915061322e565b60405162461bcd60e51b815260206004820152601c60248201527f4964656e7469747920636f6d6d69746d656e74207265717569726564000000006044820152606490fd5b60405162461bcd60e51b8152602060048201526012602482015271141cd95d591bdb9e5b481c995c5d5a5c995960721b6044820152606490fd5b60405162461bcd60e51b815260206004820152601c60248201527f427573696e657373206461746120616c726561647920657869737473000000006044820152606490fd5b346116f95760403660031901126116f9576004356001600160401b0381116116f957613347903690600401613b57565b61336860206133546139ef565b9281604051938285809451938492016139a9565b810160128152030190209060018060a01b03165f52602052602060ff60405f2054166040519015158152f35b346116f95760403660031901126116f9576004356133b06139ef565b335f9081527f83cab6d7cca1d18cc7de94a8ca8455ea26ea82b1fedd1b586dedde3a5e0e2b0060209081526040909120549091906133f09060ff16613e60565b6001600160a01b031690811561349c57825f525f815260405f20825f52815260ff60405f20541661346157825f525f815260405f2090825f525260405f20600160ff1982541617905533917f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d5f80a4005b6064906040519062461bcd60e51b825260048201526014602482015273149bdb1948185b1c9958591e4819dc985b9d195960621b6044820152fd5b6064906040519062461bcd60e51b82526004820152600f60248201526e125b9d985b1a59081858d8dbdd5b9d608a1b6044820152fd5b346116f9575f3660031901126116f957600954600a54600b54600c54604080519485526020850193909352918301526060820152608090f35b346116f957610702610cea61355561352236613a05565b929160018060a01b031692835f52601560205261354360405f208284613d82565b935f52601460205260405f2091613d82565b906143ed565b346116f957602061358c61356e36613a05565b6001600160a01b039092165f90815260108552604090209190613d82565b54604051908152f35b346116f9576020806003193601126116f9576004356001600160401b038082116116f957366023830112156116f95781600401359081116116f9576024820191602436918360051b0101116116f9576135ed81613de7565b916135fb6040519384613af1565b81835261360782613de7565b601f1901845f5b828110613814575050505f5b82811061371c575050506040519082820192808352815180945260408301938160408260051b8601019301915f955b8287106136565785850386f35b909192938280600192603f198982030185528751906136c66136956136856101608551908086528501906139ca565b85850151848203878601526139ca565b60408401516040840152606080850151908401526080808501519084015260a08085015190848303908501526139ca565b9160c0868060a01b0381830151169083015260e081015160e08301526101008082015115159083015261012063ffffffff8183015116908301526101408091015115159101529601920196019592919092613649565b8061379861372d6001938686613dfe565b8060405192833781019088818693848152030190209088858060a01b0360098401541661375b811515613d9b565b6137c3600861376b888c8c613dfe565b9690958101546006820154600783015491600a8401549761379f600b8601549a60ff9c6040519e8f613a8c565b3691613b12565b8c526137aa85613ce0565b908c015260408b015260608a0152608089015201613ce0565b60a086015260c085015260e084015281818a1c16151561010084015263ffffffff811661012084015260281c1615156101408201526138028287613e4c565b5261380d8186613e4c565b500161361a565b60405161382081613a8c565b606080825280848301525f60408301525f818301525f608083015260a08201525f60c08201525f60e08201525f6101008201525f6101208201525f61014082015282828801015201859061360e565b346116f95760203660031901126116f957600435906001600160401b0382116116f95760206138a561393b93369060040161397c565b9190828185376138d1838501600181526009868560018060a01b03988994030190200154161515613d9b565b826040519384928337810160018152030190209063ffffffff600183015491600684015461395860078601549260098701541694600a87015492600b88015494613926600861391f8b613ce0565b9a01613ce0565b916040519a8b9a610120808d528c01906139ca565b9360208b015260408a0152606089015287820360808901526139ca565b9360a086015260c085015260ff8160201c16151560e0850152166101008301520390f35b9181601f840112156116f9578235916001600160401b0383116116f957602083818601950101116116f957565b5f5b8381106139ba5750505f910152565b81810151838201526020016139ab565b906020916139e3815180928185528580860191016139a9565b601f01601f1916010190565b602435906001600160a01b03821682036116f957565b9060406003198301126116f9576004356001600160a01b03811681036116f95791602435906001600160401b0382116116f957613a449160040161397c565b9091565b60209060206040818301928281528551809452019301915f5b828110613a6f575050505090565b83516001600160a01b031685529381019392810192600101613a61565b61016081019081106001600160401b0382111761125e57604052565b606081019081106001600160401b0382111761125e57604052565b6001600160401b03811161125e57604052565b604081019081106001600160401b0382111761125e57604052565b90601f801991011681019081106001600160401b0382111761125e57604052565b9291926001600160401b03821161125e5760405191613b3b601f8201601f191660200184613af1565b8294818452818301116116f9578281602093845f960137010152565b9080601f830112156116f957816020613b7293359101613b12565b90565b90808251908181526020809101926020808460051b8301019501935f915b848310613ba35750505050505090565b9091929394958480613bc1600193601f198682030187528a516139ca565b9801930193019194939290613b93565b60409060031901126116f9576004359060243590565b60406003198201126116f957600435906001600160401b0382116116f957613c119160040161397c565b90916024356001600160a01b03811681036116f95790565b6002548110156131375760025f527f405787fa12a823e0f2b7631cc41b3ba8828b3321ca811111fa75cd3aa3bb5ace01905f90565b6004548110156131375760045f527f8a35acfbc15ff81a39ae7d344fd709f28e8600b4aa8c65c6b64bfe7fe36bd19b01905f90565b8054821015613137575f5260205f2001905f90565b90600182811c92168015613cd6575b6020831014613cc257565b634e487b7160e01b5f52602260045260245ffd5b91607f1691613cb7565b9060405191825f8254613cf281613ca8565b908184526020946001916001811690815f14613d605750600114613d22575b505050613d2092500383613af1565b565b5f90815285812095935091905b818310613d48575050613d2093508201015f8080613d11565b85548884018501529485019487945091830191613d2f565b92505050613d2094925060ff191682840152151560051b8201015f8080613d11565b6020919283604051948593843782019081520301902090565b15613da257565b60405162461bcd60e51b815260206004820152601c60248201527f427573696e657373206461746120646f6573206e6f74206578697374000000006044820152606490fd5b6001600160401b03811161125e5760051b60200190565b91908110156131375760051b81013590601e19813603018212156116f95701908135916001600160401b0383116116f95760200182360381136116f9579190565b8051156131375760200190565b80518210156131375760209160051b010190565b15613e6757565b60405162461bcd60e51b815260206004820152600c60248201526b4d697373696e6720726f6c6560a01b6044820152606490fd5b15613ea257565b60405162461bcd60e51b815260206004820152601760248201527f496e76616c696420656e6372797074656420696e7075740000000000000000006044820152606490fd5b818110613ef2575050565b5f8155600101613ee7565b90601f8111613f0a575050565b613d20915f52601f60205f20910160051c810190613ee7565b9190601f8111613f3257505050565b613d20925f5260205f20906020601f840160051c83019310613f5c575b601f0160051c0190613ee7565b9091508190613f4f565b91909182516001600160401b03811161125e57613f8d81613f878454613ca8565b84613f23565b602080601f8311600114613fce57508190613fbf9394955f92613fc3575b50508160011b915f199060031b1c19161790565b9055565b015190505f80613fab565b90601f19831695845f5260205f20925f905b88821061401757505083600195969710613fff575b505050811b019055565b01515f1960f88460031b161c191690555f8080613ff5565b80600185968294968601518155019501930190613fe0565b8054600160401b81101561125e5760018101808355811015613137576002915f52600360205f2091020182518155602083015160018201550190604060018060a01b03910151166bffffffffffffffffffffffff60a01b825416179055565b1561409557565b60405162461bcd60e51b815260206004820152601060248201526f10dbda1bdc9d081d1bdbc81cdb585b1b60821b6044820152606490fd5b5f929181546140db81613ca8565b9260019180831690811561413257506001146140f8575b50505050565b9091929394505f5260209060205f20905f915b858310614121575050505001905f8080806140f2565b80548584015291830191810161410b565b60ff191684525050508115159091020191505f8080806140f2565b60209061416092604051938480936140cd565b9081520301902090565b916040518284823760208184810160018152030190209060018060a01b03806009840154169161419b831515613d9b565b60ff600b85015460281c166142255716928184149485156141f6575b505083156141c6575b50505090565b6141e09293505f526014602052600860405f20910161414d565b905f5260205260ff60405f2054165f80806141c0565b81602092939650604051938492833781016012815203019020825f5260205260ff60405f205416925f806141b7565b5050505050505f90565b1561423657565b60405162461bcd60e51b815260206004820152600c60248201526b27b7363c9031b932b0ba37b960a11b6044820152606490fd5b1561427157565b60405162461bcd60e51b815260206004820152601160248201527021b7b739b2b73a103bb4ba34323930bbb760791b6044820152606490fd5b156142b157565b60405162461bcd60e51b81526020600482015260126024820152711058d8d95cdcc81b9bdd0819dc985b9d195960721b6044820152606490fd5b156142f257565b60405162461bcd60e51b815260206004820152601760248201527f43617465676f727920646f6573206e6f742065786973740000000000000000006044820152606490fd5b1561433e57565b60405162461bcd60e51b815260206004820152601060248201526f2737ba1030903932b9b2b0b931b432b960811b6044820152606490fd5b8054600160401b81101561125e5761439391600182018155613c93565b60018060a09493941b038084549260031b9316831b921b1916179055565b919082039182116143be57565b634e487b7160e01b5f52601160045260245ffd5b919082018092116143be57565b5f1981146143be5760010190565b91905f925f5b8154811015614444576144068183613c93565b60018060a01b0391549060031b1c165f528260205260ff60405f205416614430575b6001016143f3565b9361443c6001916143df565b949050614428565b5061444e84613de7565b9161446a6040956144626040519586613af1565b808552613de7565b60209290601f190136858501375f955f5b82548110156144e5578061449160019285613c93565b838060a01b03809254600392831b1c165f5286885260ff855f2054166144ba575b50500161447b565b6144c48387613c93565b9054911b1c166144dd6144d68b6143df565b9a89613e4c565b525f806144b2565b5093955050505050565b906005613d20926145048360028301546148a5565b6145128360038301546148a5565b6145208360048301546148a5565b01546148a5565b604051602081018181106001600160401b0382111761125e576040525f815290565b9061455382613de7565b6145606040519182613af1565b8281528092614571601f1991613de7565b01905f5b82811061458157505050565b806060602080938501015201614575565b91600454918284101561461e576145a984846143b1565b81111561460f5750815b6145c56145c085836143b1565b614549565b93805b8281106145d457505050565b806146086145e3600193613c5e565b506145f76145f186856143b1565b91613ce0565b614601828b613e4c565b5288613e4c565b50016145c8565b61461990846143d2565b6145b3565b5090915061462a614527565b9190565b91600254918284101561461e5761464584846143b1565b8111156146815750815b61465c6145c085836143b1565b93805b82811061466b57505050565b8061467a6145e3600193613c29565b500161465f565b61468b90846143d2565b61464f565b4660010361469d57600190565b4662aa36a7036146ad5761271190565b617a6946146146ba575f90565b5f1990565b9081518082526020808093019301915f5b8281106146de575050505090565b8351855293810193928101926001016146d0565b5f80516020614c458339815191525460405163045fc19560e11b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f90829061474a9060848301906139ca565b6004606483015203925af19081156125ff575f916147be575b5080925f80516020614c658339815191525416803b156116f957604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481015b03925af180156125ff576147b55750565b613d2090613ac3565b90506020813d6020116147e8575b816147d960209383613af1565b810103126116f957515f614763565b3d91506147cc565b5f80516020614c458339815191525460405163045fc19560e11b81526004810192909252336024830152608060448301526001600160a01b03939260209183919086169082905f9082906148489060848301906139ca565b6002606483015203925af19081156125ff575f916147be575080925f80516020614c658339815191525416803b156116f957604051630f8e573b60e21b815260048101929092523360248301525f908290818381604481016147a4565b5f80516020614c65833981519152546001600160a01b031691823b156116f957604051635ca4b5b160e11b815260048101929092526001600160a01b03166024820152905f908290818381604481016147a4565b90811561499c575b801561498a575b602090606460018060a01b035f80516020614c458339815191525416935f604051958694859363022f65e760e31b8552600485015260248401528160448401525af19081156125ff575f9161495b575090565b90506020813d602011614982575b8161497660209383613af1565b810103126116f9575190565b3d9150614969565b506020614995614b38565b9050614908565b90506149a6614b38565b90614901565b908115614a20575b8015614a0e575b602090606460018060a01b035f80516020614c458339815191525416935f60405195869485936304559f7160e01b8552600485015260248401528160448401525af19081156125ff575f9161495b575090565b506020614a19614b38565b90506149bb565b9050614a2a614b38565b906149b4565b908115614aa4575b8015614a92575b602090606460018060a01b035f80516020614c458339815191525416935f6040519586948593630d8c635960e21b8552600485015260248401528160448401525af19081156125ff575f9161495b575090565b506020614a9d614b38565b9050614a3f565b9050614aae614b38565b90614a38565b908115614b28575b8015614b16575b602090606460018060a01b035f80516020614c458339815191525416935f60405195869485936303056db360e31b8552600485015260248401528160448401525af19081156125ff575f9161495b575090565b506020614b21614b38565b9050614ac3565b9050614b32614b38565b90614abc565b5f80516020614c4583398151915254604051639cd07acb60e01b81525f600480830182905260248301529091602091839160449183916001600160a01b03165af19081156125ff575f9161495b575090565b5f80516020614c458339815191525460405163022f65e760e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156125ff575f9161495b575090565b5f80516020614c45833981519152546040516303056db360e31b8152600481019290925260016024830152600160f81b6044830152602090829060649082905f906001600160a01b03165af19081156125ff575f9161495b57509056fe9e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497019e7b61f58c47dc699ac88507c4f5bb9f121c03808c5676a8078fe583e46497008d1108e10bcb7c27dddfc02ed9d693a074039d026cf4ea4240b40f7d581ac802a164736f6c6343000818000a";
 
 type UniversalFHEAdapterConstructorParams =
   | [signer?: Signer]